@@ -51,6 +51,8 @@ class RnVietmapTrackingPluginModule(reactContext: ReactApplicationContext) :
   private val gson = Gson()
   private var isInitialized: Boolean = false
   private var currentTrackingConfig: WritableMap? = null
+  // Last configuration passed to the SDK, so partial updates keep the fields they leave out
+  private var appliedTrackingConfig: TrackingConfig? = null
   private var pendingLocationPermissionPromise: Promise? = null
   private var pendingBackgroundPermissionPromise: Promise? = null
 
@@ -506,6 +508,7 @@ class RnVietmapTrackingPluginModule(reactContext: ReactApplicationContext) :
           enableBackgroundMode = backgroundMode
       }
       vietmapSDK.setTrackingConfig(trackingConfig)
+      appliedTrackingConfig = trackingConfig
 
       // Start tracking with VietmapTrackingSDK
       vietmapSDK.startTracking()
@@ -614,8 +617,14 @@ class RnVietmapTrackingPluginModule(reactContext: ReactApplicationContext) :
       // Update configuration if tracking is active
       val isActive = vietmapSDK.isTracking()
       if (isActive) {
-        // Extract configuration from ReadableMap
+        // Merge the changed fields from ReadableMap into the last applied configuration
+        val previous = appliedTrackingConfig
         val trackingConfig = TrackingConfig().apply {
+          if (previous != null) {
+            updateInterval = previous.updateInterval
+            minDistanceFilter = previous.minDistanceFilter
+            enableBackgroundMode = previous.enableBackgroundMode
+          }
           if (config.hasKey("intervalMs") && !config.isNull("intervalMs")) {
             updateInterval = config.getDouble("intervalMs").toLong()
           }
@@ -628,6 +637,7 @@ class RnVietmapTrackingPluginModule(reactContext: ReactApplicationContext) :
         }
 
         vietmapSDK.setTrackingConfig(trackingConfig)
+        appliedTrackingConfig = trackingConfig
         promise.resolve(true)
       } else {
         promise.resolve(false)
@@ -275,9 +275,9 @@ const GPSTrackingDemo = () => {
 
     try {
       const activeConfig = getActiveConfig();
-      const success = await updateTrackingConfig(activeConfig);
-      if (success) {
-        Alert.alert('✅ Success', 'Configuration updated');
+      const result = await updateTrackingConfig(activeConfig);
+      if (result.applied) {
+        Alert.alert('✅ Success', ['Configuration updated', ...result.warnings].join('\n'));
       }
     } catch (error) {
       console.error('Error updating config:', error);
@@ -0,0 +1,152 @@
+import { AdaptiveTracker } from '../adaptive';
+import { TrackingSimulator } from '../simulator';
+import { setTrackingBackend, resetTrackingBackend } from '../backend';
+import { startLocationTracking, stopLocationTracking } from '../tracking';
+import { TRACKING_PRESETS } from '../constants';
+import type { AdaptiveModeChangeEvent } from '../adaptive';
+import type { LocationData, LocationTrackingConfig } from '../types';
+
+const t0 = 1700000000000;
+
+function fix(second: number, speed: number, northMeters: number = 0): LocationData {
+  return {
+    latitude: 21.0285 + northMeters / 111195,
+    longitude: 105.8542,
+    altitude: 0,
+    accuracy: 5,
+    speed,
+    bearing: 0,
+    timestamp: t0 + second * 1000,
+  };
+}
+
+describe('AdaptiveTracker', () => {
+  afterEach(() => {
+    resetTrackingBackend();
+  });
+
+  test('should switch to the stationary preset after the stationary period', async () => {
+    const applied: LocationTrackingConfig[] = [];
+    const tracker = new AdaptiveTracker({
+      stationaryAfterMs: 60000,
+      applyConfig: async config => {
+        applied.push(config);
+        return true;
+      },
+    });
+    const events: AdaptiveModeChangeEvent[] = [];
+    tracker.addListener(event => events.push(event));
+
+    // The stationary period starts at the second fix near the 120m mark
+    await tracker.processLocation(fix(0, 12, 0));
+    for (let second = 10; second < 80; second += 10) {
+      expect(await tracker.processLocation(fix(second, 0.2, 120))).toBeNull();
+    }
+    const event = await tracker.processLocation(fix(80, 0.1, 122));
+
+    expect(event).toMatchObject({
+      previousPreset: 'NAVIGATION',
+      preset: 'BATTERY_SAVER',
+      reason: 'stationary',
+      timestamp: t0 + 80000,
+    });
+    expect(applied).toEqual([TRACKING_PRESETS.BATTERY_SAVER]);
+    expect(events).toEqual([event]);
+    expect(tracker.isStationary()).toBe(true);
+  });
+
+  test('should restart the stationary timer when the device moves', async () => {
+    const tracker = new AdaptiveTracker({ stationaryAfterMs: 60000, applyConfig: async () => true });
+
+    await tracker.processLocation(fix(0, 0));
+    await tracker.processLocation(fix(50, 0));
+    await tracker.processLocation(fix(55, 3, 40));
+    await tracker.processLocation(fix(60, 0, 40));
+    expect(await tracker.processLocation(fix(100, 0, 40))).toBeNull();
+    expect((await tracker.processLocation(fix(120, 0, 40)))?.reason).toBe('stationary');
+  });
+
+  test('should not restart the stationary timer for speed jitter inside the radius', async () => {
+    const tracker = new AdaptiveTracker({ stationaryAfterMs: 60000, applyConfig: async () => true });
+
+    await tracker.processLocation(fix(0, 0));
+    await tracker.processLocation(fix(10, 0));
+    await tracker.processLocation(fix(30, 1.4, 5));
+    await tracker.processLocation(fix(50, 0.8, 2));
+    expect((await tracker.processLocation(fix(70, 0.1, 3)))?.reason).toBe('stationary');
+  });
+
+  test('should report errors thrown while handling location events', async () => {
+    const simulator = new TrackingSimulator();
+    const errors: Error[] = [];
+    const tracker = new AdaptiveTracker({
+      stationaryAfterMs: 0,
+      applyConfig: async () => true,
+      onError: error => errors.push(error),
+    });
+    tracker.addListener(() => {
+      throw new Error('listener failed');
+    });
+    tracker.start(simulator);
+
+    simulator.emit('onLocationUpdate', fix(0, 0));
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(errors.map(error => error.message)).toEqual(['listener failed']);
+    tracker.stop();
+  });
+
+  test('should ramp back up when speed rises or the device leaves the area', async () => {
+    const tracker = new AdaptiveTracker({
+      movingPreset: 'FITNESS',
+      stationaryAfterMs: 0,
+      applyConfig: async () => true,
+    });
+
+    await tracker.processLocation(fix(0, 0));
+    expect(tracker.getPreset()).toBe('BATTERY_SAVER');
+
+    // GPS drift inside the radius and a single speed spike keep the stationary preset
+    expect(await tracker.processLocation(fix(300, 1, 20))).toBeNull();
+    expect(await tracker.processLocation(fix(310, 2.5, 25))).toBeNull();
+    expect(await tracker.processLocation(fix(311, 0.5, 25))).toBeNull();
+    expect(tracker.getPreset()).toBe('BATTERY_SAVER');
+
+    // Speed held for movingAfterMs (default 5s)
+    expect(await tracker.processLocation(fix(320, 2.5, 25))).toBeNull();
+    expect(await tracker.processLocation(fix(323, 2.5, 28))).toBeNull();
+    expect((await tracker.processLocation(fix(325, 3, 30)))?.reason).toBe('speed_increased');
+    expect(tracker.getPreset()).toBe('FITNESS');
+
+    await tracker.processLocation(fix(335, 0, 30));
+    const left = await tracker.processLocation(fix(635, 0.3, 100));
+    expect(left).toMatchObject({ preset: 'FITNESS', reason: 'left_stationary_area' });
+  });
+
+  test('should apply presets through the tracking backend and report failures', async () => {
+    const simulator = new TrackingSimulator();
+    setTrackingBackend(simulator);
+    await startLocationTracking(TRACKING_PRESETS.NAVIGATION);
+    const update = jest.spyOn(simulator, 'updateTrackingConfig');
+
+    const tracker = new AdaptiveTracker({ stationaryAfterMs: 0 });
+    tracker.start(simulator);
+    simulator.emit('onLocationUpdate', fix(0, 0));
+    await Promise.resolve();
+    // Only the fields that differ from NAVIGATION are sent
+    const { intervalMs, distanceFilter, accuracy, notificationTitle, notificationMessage } = TRACKING_PRESETS.BATTERY_SAVER;
+    expect(update).toHaveBeenCalledWith({ intervalMs, distanceFilter, accuracy, notificationTitle, notificationMessage });
+    await stopLocationTracking();
+
+    const errors: string[] = [];
+    const failing = new AdaptiveTracker({
+      stationaryAfterMs: 0,
+      applyConfig: () => Promise.reject(Object.assign(new Error('busy'), { code: 'CONFIG_UPDATE_ERROR' })),
+      onError: error => errors.push(error.code),
+    });
+    expect(await failing.processLocation(fix(0, 0))).toBeNull();
+    expect(errors).toEqual(['INVALID_CONFIG']);
+    expect(failing.getPreset()).toBe('NAVIGATION');
+    tracker.stop();
+  });
+});
@@ -0,0 +1,47 @@
+import {
+  TrackingError,
+  PermissionDeniedError,
+  TrackingStateError,
+  ServiceError,
+  toTrackingError,
+  mapNativeErrorCode,
+} from '../errors';
+
+describe('TrackingError', () => {
+  test('should mark recoverable codes', () => {
+    expect(new PermissionDeniedError().recoverable).toBe(true);
+    expect(new TrackingStateError('ALREADY_TRACKING', 'busy').recoverable).toBe(true);
+    expect(new ServiceError('SERVICE_UNAVAILABLE', 'down').recoverable).toBe(false);
+  });
+
+  test('should map native rejection codes', () => {
+    expect(mapNativeErrorCode('SDK_NOT_INITIALIZED')).toBe('SERVICE_UNAVAILABLE');
+    expect(mapNativeErrorCode('INVALID_API_KEY')).toBe('INVALID_CONFIG');
+    expect(mapNativeErrorCode('TIMEOUT')).toBe('TIMEOUT');
+    expect(mapNativeErrorCode('SOMETHING_ELSE')).toBeUndefined();
+  });
+
+  test('should wrap native rejections and keep the cause', () => {
+    const nativeError = Object.assign(new Error('Unable to get current location'), {
+      code: 'LOCATION_UNAVAILABLE',
+    });
+
+    const error = toTrackingError(nativeError);
+    expect(error).toBeInstanceOf(TrackingError);
+    expect(error).toBeInstanceOf(ServiceError);
+    expect(error.code).toBe('LOCATION_UNAVAILABLE');
+    expect(error.message).toBe('Unable to get current location');
+    expect(error.cause).toBe(nativeError);
+  });
+
+  test('should use fallback code for unknown errors', () => {
+    const error = toTrackingError('boom', 'PERMISSION_DENIED');
+    expect(error).toBeInstanceOf(PermissionDeniedError);
+    expect(error.code).toBe('PERMISSION_DENIED');
+  });
+
+  test('should return existing TrackingError unchanged', () => {
+    const original = new PermissionDeniedError();
+    expect(toTrackingError(original)).toBe(original);
+  });
+});
@@ -0,0 +1,97 @@
+import { toGPX, toKML, toGeoJSON } from '../export';
+import { TrackingSession } from '../session';
+
+const start = Date.UTC(2025, 0, 1, 8, 0, 0);
+
+function createSession(): TrackingSession {
+  const session = new TrackingSession();
+  session.start();
+  session.addLocation({
+    latitude: 21.0285,
+    longitude: 105.8542,
+    altitude: 12,
+    accuracy: 5,
+    speed: 8.5,
+    bearing: 90,
+    timestamp: start,
+  });
+  session.addLocation(21.0286, 105.855, start + 5000);
+  return session;
+}
+
+describe('Track exporters', () => {
+  test('session should retain full location data', () => {
+    const locations = createSession().getLocations();
+    expect(locations[0]?.speed).toBe(8.5);
+    expect(locations[1]?.speed).toBeUndefined();
+    expect(createSession().getHistory()[1]).toEqual({
+      lat: 21.0286,
+      lon: 105.855,
+      timestamp: start + 5000,
+    });
+  });
+
+  test('should export GPX 1.1 track with extensions', () => {
+    const gpx = toGPX(createSession(), { name: 'Trip <1>', extensions: true });
+
+    expect(gpx).toContain('<gpx version="1.1"');
+    expect(gpx).toContain('<name>Trip &lt;1&gt;</name>');
+    expect(gpx).toContain('<trkpt lat="21.0285" lon="105.8542">');
+    expect(gpx).toContain('<ele>12</ele>');
+    expect(gpx).toContain('<time>2025-01-01T08:00:00.000Z</time>');
+    expect(gpx).toContain('<gpxtpx:speed>8.5</gpxtpx:speed>');
+    expect(gpx).toContain('<gpxtpx:course>90</gpxtpx:course>');
+    expect(gpx).toContain('<vietmap:accuracy>5</vietmap:accuracy>');
+    expect(gpx.match(/<trkpt /g)).toHaveLength(2);
+    expect(gpx.match(/<extensions>/g)).toHaveLength(1);
+  });
+
+  test('should omit GPX extensions by default', () => {
+    expect(toGPX(createSession())).not.toContain('<extensions>');
+  });
+
+  test('should export KML LineString', () => {
+    const kml = toKML(createSession(), { extensions: ['speed'] });
+
+    expect(kml).toContain('<kml xmlns="http://www.opengis.net/kml/2.2">');
+    expect(kml).toContain('<coordinates>105.8542,21.0285,12 105.855,21.0286,0</coordinates>');
+    expect(kml).toContain('<Data name="speed"><value>8.5 </value></Data>');
+  });
+
+  test('should export GeoJSON FeatureCollection', () => {
+    const geojson = toGeoJSON(createSession(), { extensions: ['accuracy'] });
+    const feature = geojson.features[0]!;
+
+    expect(geojson.type).toBe('FeatureCollection');
+    expect(feature.geometry.coordinates).toEqual([
+      [105.8542, 21.0285, 12],
+      [105.855, 21.0286],
+    ]);
+    expect(feature.properties.coordTimes).toHaveLength(2);
+    expect(feature.properties.accuracies).toEqual([5, null]);
+    expect(feature.properties.speeds).toBeUndefined();
+  });
+
+  test('should export a one-point track as a Point', () => {
+    const session = new TrackingSession();
+    session.start();
+    session.addLocation(21.0285, 105.8542, start);
+
+    const kml = toKML(session);
+    expect(kml).toContain('<Point>\n        <coordinates>105.8542,21.0285,0</coordinates>\n      </Point>');
+    expect(kml).not.toContain('<LineString>');
+
+    const geojson = toGeoJSON(session);
+    expect(geojson.features).toHaveLength(1);
+    expect(geojson.features[0]!.geometry).toEqual({ type: 'Point', coordinates: [105.8542, 21.0285] });
+    expect(geojson.features[0]!.properties.coordTimes).toEqual(['2025-01-01T08:00:00.000Z']);
+  });
+
+  test('should export an empty track without geometry', () => {
+    const kml = toKML([], { name: 'Empty' });
+    expect(kml).toContain('<name>Empty</name>');
+    expect(kml).not.toContain('<Placemark>');
+
+    expect(toGeoJSON([])).toEqual({ type: 'FeatureCollection', features: [] });
+  });
+});
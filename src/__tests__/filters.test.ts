@@ -0,0 +1,140 @@
+import { KalmanFilter, LocationPipeline, OutlierFilter } from '../filters';
+import { TrackingSession } from '../session';
+import { TrackingSimulator } from '../simulator';
+import { LocationUtils } from '../utils';
+import type { LocationData } from '../types';
+
+const t0 = 1700000000000;
+
+// Deterministic pseudo-random noise in [-1, 1]
+function noise(i: number): number {
+  const x = Math.sin(i * 12.9898) * 43758.5453;
+  return (x - Math.floor(x)) * 2 - 1;
+}
+
+function truth(i: number): LocationData {
+  // Moving north at 10 m/s, one fix per second
+  return {
+    latitude: 21.0 + (i * 10) / 111195,
+    longitude: 105.8,
+    altitude: 0,
+    accuracy: 15,
+    speed: 10,
+    bearing: 0,
+    timestamp: t0 + i * 1000,
+  };
+}
+
+function noisy(i: number): LocationData {
+  const location = truth(i);
+  return {
+    ...location,
+    latitude: location.latitude + (noise(i) * 20) / 111195,
+    longitude: location.longitude + (noise(i + 1000) * 20) / 103800,
+  };
+}
+
+function error(a: LocationData, b: LocationData): number {
+  return LocationUtils.calculateDistance(a.latitude, a.longitude, b.latitude, b.longitude);
+}
+
+describe('KalmanFilter', () => {
+  test('should reduce position error of noisy fixes', () => {
+    const filter = new KalmanFilter();
+    let rawError = 0;
+    let filteredError = 0;
+
+    for (let i = 0; i < 120; i++) {
+      const filtered = filter.process(noisy(i));
+      if (i >= 20) {
+        rawError += error(noisy(i), truth(i));
+        filteredError += error(filtered, truth(i));
+      }
+    }
+
+    expect(filteredError).toBeLessThan(rawError * 0.6);
+  });
+
+  test('should restart on large gaps', () => {
+    const filter = new KalmanFilter({ maxGapMs: 10000 });
+    filter.process(noisy(0));
+    filter.process(noisy(1));
+
+    const afterGap = { ...noisy(100), latitude: 21.5 };
+    expect(filter.process(afterGap).latitude).toBe(21.5);
+  });
+});
+
+describe('LocationPipeline', () => {
+  test('should feed filtered fixes to listeners and sessions', () => {
+    const simulator = new TrackingSimulator();
+    const pipeline = new LocationPipeline([new KalmanFilter()], simulator);
+    const session = new TrackingSession();
+    session.start();
+
+    const received: LocationData[] = [];
+    const listener = pipeline.addLocationUpdateListener(location => received.push(location));
+    const sessionSubscription = session.subscribe(pipeline);
+
+    simulator.emit('onLocationUpdate', noisy(0));
+    simulator.emit('onLocationUpdate', noisy(1));
+
+    expect(received).toHaveLength(2);
+    expect(session.getStats().locationCount).toBe(2);
+    expect(received[1]!.latitude).not.toBe(noisy(1).latitude);
+
+    listener.remove();
+    sessionSubscription.remove();
+    simulator.emit('onLocationUpdate', noisy(2));
+    expect(received).toHaveLength(2);
+  });
+});
+
+describe('OutlierFilter', () => {
+  function fix(seconds: number, metersNorth: number, accuracy: number = 5): LocationData {
+    return {
+      ...truth(0),
+      latitude: 21.0 + metersNorth / 111195,
+      accuracy,
+      timestamp: t0 + seconds * 1000,
+    };
+  }
+
+  test('should report why fixes are dropped', () => {
+    const rejected: string[] = [];
+    const filter = new OutlierFilter({ onReject: (_, reason) => rejected.push(reason) });
+
+    expect(filter.evaluate(fix(0, 0)).accepted).toBe(true);
+    expect(filter.evaluate(fix(1, 10)).accepted).toBe(true);
+    expect(filter.evaluate(fix(1, 12))).toEqual({ accepted: false, reason: 'duplicate_timestamp' });
+    expect(filter.evaluate(fix(2, 2000)).reason).toBe('implied_speed');
+    expect(filter.evaluate(fix(3, 30, 150)).reason).toBe('poor_accuracy');
+    expect(filter.evaluate(fix(4, 40)).accepted).toBe(true);
+    expect(filter.evaluate({ ...fix(5, 50), latitude: 0, longitude: 0 }).reason).toBe('invalid_coordinates');
+
+    expect(rejected).toEqual(['duplicate_timestamp', 'implied_speed', 'poor_accuracy', 'invalid_coordinates']);
+    expect(filter.getRejectionCounts().implied_speed).toBe(1);
+  });
+
+  test('should re-anchor after consecutive jump rejections', () => {
+    const filter = new OutlierFilter({ maxConsecutiveRejections: 2 });
+    filter.evaluate(fix(0, 0));
+
+    expect(filter.evaluate(fix(1, 5000)).accepted).toBe(false);
+    expect(filter.evaluate(fix(2, 5010)).accepted).toBe(false);
+    expect(filter.evaluate(fix(3, 5020)).accepted).toBe(true);
+    expect(filter.evaluate(fix(4, 5030)).accepted).toBe(true);
+  });
+
+  test('should keep spikes out of TrackingSession distance', () => {
+    const session = new TrackingSession({ outlierFilter: new OutlierFilter() });
+    session.start();
+    session.addLocation(fix(0, 0));
+    session.addLocation(fix(1, 10));
+    session.addLocation(fix(2, 3000)); // spike
+    session.addLocation(fix(3, 30));
+
+    expect(session.getStats().locationCount).toBe(3);
+    expect(session.getStats().distance).toBeCloseTo(30, 0);
+  });
+});
@@ -0,0 +1,85 @@
+import { GeofenceManager } from '../geofence';
+import type { GeofenceEvent } from '../geofence';
+import type { LocationData } from '../types';
+
+const t0 = 1700000000000;
+// ~111m per 0.001 degree of latitude
+const center = { latitude: 21.0285, longitude: 105.8542 };
+
+function at(latitudeOffset: number, seconds: number, longitudeOffset: number = 0): LocationData {
+  return {
+    latitude: center.latitude + latitudeOffset,
+    longitude: center.longitude + longitudeOffset,
+    altitude: 0,
+    accuracy: 5,
+    speed: 1,
+    bearing: 0,
+    timestamp: t0 + seconds * 1000,
+  };
+}
+
+describe('GeofenceManager', () => {
+  test('should emit enter, dwell and exit for a circular fence', () => {
+    const manager = new GeofenceManager({ hysteresisMeters: 20, dwellMs: 60000 });
+    manager.addGeofence({ id: 'depot', type: 'circle', ...center, radius: 100 });
+
+    const events: GeofenceEvent[] = [];
+    manager.addListener(event => events.push(event));
+
+    manager.processLocation(at(0.002, 0)); // ~222m outside
+    manager.processLocation(at(0.0005, 10)); // inside
+    manager.processLocation(at(0, 80)); // dwell
+    manager.processLocation(at(0.002, 100)); // exit
+
+    expect(events.map(e => e.type)).toEqual(['enter', 'dwell', 'exit']);
+    expect(events[0]!.location.timestamp).toBe(t0 + 10000);
+    expect(events[0]!.fence.id).toBe('depot');
+  });
+
+  test('should not flap on boundary jitter', () => {
+    const manager = new GeofenceManager({ hysteresisMeters: 20 });
+    manager.addGeofence({ id: 'gate', type: 'circle', ...center, radius: 100 });
+
+    const types: string[] = [];
+    manager.addListener(event => types.push(event.type));
+
+    // Alternating ~95m (inside) and ~110m (outside by 10m, within hysteresis)
+    for (let i = 0; i < 6; i++) {
+      manager.processLocation(at(i % 2 === 0 ? 0.00085 : 0.00099, i));
+    }
+    expect(types).toEqual(['enter']);
+    expect(manager.isInside('gate')).toBe(true);
+  });
+
+  test('should handle GeoJSON polygons with holes', () => {
+    const manager = new GeofenceManager({ hysteresisMeters: 0 });
+    const d = 0.001;
+    manager.addGeofence({
+      id: 'campus',
+      type: 'polygon',
+      polygon: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [center.longitude - d, center.latitude - d],
+            [center.longitude + d, center.latitude - d],
+            [center.longitude + d, center.latitude + d],
+            [center.longitude - d, center.latitude + d],
+            [center.longitude - d, center.latitude - d],
+          ],
+          [
+            [center.longitude - d / 4, center.latitude - d / 4],
+            [center.longitude + d / 4, center.latitude - d / 4],
+            [center.longitude + d / 4, center.latitude + d / 4],
+            [center.longitude - d / 4, center.latitude + d / 4],
+            [center.longitude - d / 4, center.latitude - d / 4],
+          ],
+        ],
+      },
+    });
+
+    expect(manager.processLocation(at(0.0006, 0, 0.0006)).map(e => e.type)).toEqual(['enter']);
+    expect(manager.processLocation(at(0, 1)).map(e => e.type)).toEqual(['exit']); // in the hole
+    expect(manager.processLocation(at(0.002, 2))).toEqual([]);
+  });
+});
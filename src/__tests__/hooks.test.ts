@@ -0,0 +1,259 @@
+import { act, createElement } from 'react';
+import { create } from 'react-test-renderer';
+import type { ReactTestRenderer } from 'react-test-renderer';
+import {
+  SharedStore,
+  trackingStatusStore,
+  permissionStore,
+  liveLocationStore,
+  refreshTrackingStatus,
+  useCurrentLocation,
+  useLocationTracking,
+  usePermissions,
+  useTrackingStatus,
+} from '../hooks';
+import { TrackingSimulator } from '../simulator';
+import { setTrackingBackend, resetTrackingBackend } from '../backend';
+import { setActiveTrackingConfig } from '../trackingConfig';
+import type { Spec } from '../NativeRnVietmapTrackingPlugin';
+import { startLocationTracking } from '../index';
+
+function flush(): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, 0));
+}
+
+describe('Hook stores', () => {
+  let simulator: TrackingSimulator;
+
+  beforeEach(() => {
+    simulator = new TrackingSimulator({ route: [{ latitude: 21.0285, longitude: 105.8542 }] });
+    setTrackingBackend(simulator);
+  });
+
+  afterEach(() => {
+    resetTrackingBackend();
+    setActiveTrackingConfig(null);
+  });
+
+  test('should connect once for many subscribers and disconnect after the last', () => {
+    const connect = jest.fn(() => disconnect);
+    const disconnect = jest.fn();
+    const store = new SharedStore({ count: 0 }, connect);
+
+    const first = store.subscribe(() => {});
+    const second = store.subscribe(() => {});
+    expect(connect).toHaveBeenCalledTimes(1);
+
+    first();
+    expect(disconnect).not.toHaveBeenCalled();
+    second();
+    expect(disconnect).toHaveBeenCalledTimes(1);
+    expect(store.getSubscriberCount()).toBe(0);
+  });
+
+  test('should share tracking status between subscribers', async () => {
+    const notified: boolean[] = [];
+    const unsubscribeA = trackingStatusStore.subscribe(() => notified.push(true));
+    const unsubscribeB = trackingStatusStore.subscribe(() => {});
+    await flush();
+
+    expect(trackingStatusStore.getSnapshot()).toMatchObject({ loading: false, status: { isTracking: false } });
+
+    await startLocationTracking({ intervalMs: 1000, distanceFilter: 0, accuracy: 'high', backgroundMode: false });
+    expect(trackingStatusStore.getSnapshot().status?.isTracking).toBe(true);
+    expect(notified.length).toBeGreaterThan(0);
+
+    unsubscribeA();
+    unsubscribeB();
+    await simulator.stopTracking();
+  });
+
+  test('should deduplicate concurrent refreshes', async () => {
+    const spy = jest.spyOn(simulator, 'getTrackingStatus');
+    await Promise.all([refreshTrackingStatus(), refreshTrackingStatus(), refreshTrackingStatus()]);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  test('should follow permission changes', async () => {
+    simulator.setPermissionStatus('denied');
+    const unsubscribe = permissionStore.subscribe(() => {});
+    await flush();
+    expect(permissionStore.getSnapshot().permission?.granted).toBe(false);
+
+    simulator.setPermissionStatus('granted');
+    await flush();
+    expect(permissionStore.getSnapshot().permission?.granted).toBe(true);
+    unsubscribe();
+  });
+
+  test('should expose the latest location and location errors', () => {
+    const unsubscribe = liveLocationStore.subscribe(() => {});
+    const location = simulator.step();
+    expect(liveLocationStore.getSnapshot().location).toEqual(location);
+
+    simulator.emit('onLocationError', { error: 'GPS signal lost', timestamp: 1 });
+    expect(liveLocationStore.getSnapshot().error?.code).toBe('LOCATION_UNAVAILABLE');
+    unsubscribe();
+
+    // Disconnected: later fixes are not tracked
+    simulator.step();
+    expect(liveLocationStore.getSnapshot().location).toEqual(location);
+  });
+});
+
+/**
+ * Render a hook in a component and keep its latest result
+ */
+async function renderHook<T>(hook: () => T): Promise<{ result: { current: T }; renderer: ReactTestRenderer }> {
+  const result = {} as { current: T };
+  function Probe() {
+    result.current = hook();
+    return null;
+  }
+
+  let renderer: ReactTestRenderer;
+  await act(async () => {
+    renderer = create(createElement(Probe));
+  });
+  return { result, renderer: renderer! };
+}
+
+const config = { intervalMs: 1000, distanceFilter: 10, accuracy: 'high' as const, backgroundMode: false };
+
+describe('Tracking hooks', () => {
+  let simulator: TrackingSimulator;
+
+  beforeEach(() => {
+    simulator = new TrackingSimulator({
+      // Fixed timestamps so streamed fixes are always newer than the one-shot fix
+      route: [
+        { latitude: 21.0285, longitude: 105.8542, timestamp: 1700000000000 },
+        { latitude: 21.029, longitude: 105.8542, timestamp: 1700000001000 },
+        { latitude: 21.0295, longitude: 105.8542, timestamp: 1700000002000 },
+      ],
+    });
+    setTrackingBackend(simulator);
+  });
+
+  afterEach(async () => {
+    await simulator.stopTracking();
+    resetTrackingBackend();
+    setActiveTrackingConfig(null);
+  });
+
+  test('useTrackingStatus should follow status events and unsubscribe on unmount', async () => {
+    const { result, renderer } = await renderHook(useTrackingStatus);
+    expect(trackingStatusStore.getSubscriberCount()).toBe(1);
+    expect(result.current).toMatchObject({ loading: false, status: { isTracking: false } });
+
+    await act(() => simulator.startTracking(false, 1000, 0));
+    expect(result.current.status?.isTracking).toBe(true);
+
+    act(() => renderer.unmount());
+    expect(trackingStatusStore.getSubscriberCount()).toBe(0);
+  });
+
+  test('usePermissions should follow permission changes and unsubscribe on unmount', async () => {
+    const { result, renderer } = await renderHook(usePermissions);
+    expect(permissionStore.getSubscriberCount()).toBe(1);
+    expect(result.current.granted).toBe(true);
+
+    await act(async () => {
+      simulator.setPermissionStatus('denied');
+    });
+    expect(result.current.granted).toBe(false);
+
+    act(() => renderer.unmount());
+    expect(permissionStore.getSubscriberCount()).toBe(0);
+  });
+
+  test('useLocationTracking should start tracking and stream locations', async () => {
+    const { result, renderer } = await renderHook(() => useLocationTracking(config));
+    expect(result.current.isTracking).toBe(false);
+
+    await act(async () => {
+      await result.current.start();
+    });
+    expect(result.current.isTracking).toBe(true);
+    expect(result.current.status?.config).toMatchObject(config);
+
+    let location: ReturnType<TrackingSimulator['step']> = null;
+    act(() => {
+      location = simulator.step();
+    });
+    expect(result.current.location).toEqual(location);
+
+    await act(async () => {
+      await result.current.stop();
+    });
+    expect(result.current.isTracking).toBe(false);
+
+    act(() => renderer.unmount());
+    expect(trackingStatusStore.getSubscriberCount()).toBe(0);
+    expect(liveLocationStore.getSubscriberCount()).toBe(0);
+  });
+
+  test('useCurrentLocation should watch live locations until unmounted', async () => {
+    const { result, renderer } = await renderHook(() => useCurrentLocation({ watch: true }));
+    expect(result.current).toMatchObject({ loading: false, location: { latitude: 21.0285 } });
+    expect(liveLocationStore.getSubscriberCount()).toBe(1);
+
+    act(() => {
+      simulator.step();
+      simulator.step();
+    });
+    expect(result.current.location?.latitude).toBe(21.029);
+
+    act(() => renderer.unmount());
+    expect(liveLocationStore.getSubscriberCount()).toBe(0);
+  });
+
+  test('should report a backend without events instead of throwing on mount', async () => {
+    // Only the one-shot calls of the Spec, without addListener
+    const bare = {
+      getTrackingStatus: () => simulator.getTrackingStatus(),
+      getCurrentLocation: () => simulator.getCurrentLocation(),
+    } as unknown as Spec;
+    setTrackingBackend(bare);
+
+    const status = await renderHook(useTrackingStatus);
+    expect(status.result.current).toMatchObject({ loading: false, error: { code: 'SERVICE_UNAVAILABLE' } });
+
+    const live = await renderHook(() => useCurrentLocation({ watch: true }));
+    expect(live.result.current.error?.code).toBe('SERVICE_UNAVAILABLE');
+
+    act(() => {
+      status.renderer.unmount();
+      live.renderer.unmount();
+    });
+    expect(trackingStatusStore.getSubscriberCount()).toBe(0);
+    expect(liveLocationStore.getSubscriberCount()).toBe(0);
+  });
+
+  test('should follow the new event source when the backend changes while mounted', async () => {
+    const status = await renderHook(useTrackingStatus);
+    const live = await renderHook(() => useCurrentLocation({ watch: true }));
+
+    const replacement = new TrackingSimulator({
+      route: [{ latitude: 10.7769, longitude: 106.7009, timestamp: 1700000005000 }],
+    });
+    await act(async () => {
+      setTrackingBackend(replacement);
+    });
+
+    act(() => {
+      simulator.step();
+      replacement.step();
+    });
+    expect(live.result.current.location?.latitude).toBe(10.7769);
+
+    await act(() => replacement.startTracking(false, 1000, 0));
+    expect(status.result.current.status?.isTracking).toBe(true);
+
+    act(() => {
+      status.renderer.unmount();
+      live.renderer.unmount();
+    });
+    await replacement.stopTracking();
+  });
+});
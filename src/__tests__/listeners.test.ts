@@ -0,0 +1,64 @@
+import {
+  addLocationErrorListener,
+  addPermissionChangeListener,
+  addRouteUpdateListener,
+  setTrackingBackend,
+  resetTrackingBackend,
+  TrackingSimulator,
+} from '../index';
+import type { TrackingEventSource } from '../backend';
+import type { LocationErrorEvent, PermissionChangeEvent, RouteUpdateEvent } from '../types';
+
+describe('Typed event listeners', () => {
+  afterEach(() => {
+    resetTrackingBackend();
+  });
+
+  test('should subscribe to the native event names', () => {
+    const remove = jest.fn();
+    const events: TrackingEventSource = { addListener: jest.fn(() => ({ remove })) };
+    setTrackingBackend(new TrackingSimulator(), events);
+
+    const callback = jest.fn();
+    addLocationErrorListener(callback).remove();
+    addPermissionChangeListener(callback).remove();
+    addRouteUpdateListener(callback).remove();
+
+    expect((events.addListener as jest.Mock).mock.calls).toEqual([
+      ['onLocationError', callback],
+      ['onPermissionChanged', callback],
+      ['onRouteUpdate', callback],
+    ]);
+    expect(remove).toHaveBeenCalledTimes(3);
+  });
+
+  test('should deliver events until removed', () => {
+    const simulator = new TrackingSimulator();
+    setTrackingBackend(simulator);
+
+    const errors: LocationErrorEvent[] = [];
+    const permissions: PermissionChangeEvent[] = [];
+    const routes: RouteUpdateEvent[] = [];
+    const subscriptions = [
+      addLocationErrorListener(event => errors.push(event)),
+      addPermissionChangeListener(event => permissions.push(event)),
+      addRouteUpdateListener(event => routes.push(event)),
+    ];
+
+    const error = { error: 'GPS signal lost', timestamp: 1700000000000 };
+    const permission = { granted: false, type: 'location' as const };
+    const route = { success: true, routeData: { links: [] }, timestamp: 1700000000000 };
+    simulator.emit('onLocationError', error);
+    simulator.emit('onPermissionChanged', permission);
+    simulator.emit('onRouteUpdate', route);
+
+    subscriptions.forEach(subscription => subscription.remove());
+    simulator.emit('onLocationError', error);
+    simulator.emit('onPermissionChanged', permission);
+    simulator.emit('onRouteUpdate', route);
+
+    expect(errors).toEqual([error]);
+    expect(permissions).toEqual([permission]);
+    expect(routes).toEqual([route]);
+  });
+});
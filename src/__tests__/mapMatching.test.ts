@@ -0,0 +1,120 @@
+import { MapMatcher } from '../mapMatching';
+import type { MapMatchResult } from '../mapMatching';
+import { processRouteData, findNearestAlert } from '../route';
+import { SpeedViolationMonitor } from '../speed';
+import { setSpeedLimitTierLayout } from '../speedLimits';
+import type { LocationData, SpeedViolationEvent } from '../types';
+
+const t0 = 1700000000000;
+
+// Main road along 21.03 with a frontage road ~22m north joining it at both ends
+const route = processRouteData({
+  links: [
+    { id: 1, direction: 0, startLat: 21.03, startLon: 105.85, endLat: 21.03, endLon: 105.852, speedLimits: [[0, 80]] },
+    { id: 2, direction: 0, startLat: 21.03, startLon: 105.852, endLat: 21.03, endLon: 105.854, speedLimits: [[0, 80]] },
+    { id: 3, direction: 0, startLat: 21.03, startLon: 105.854, endLat: 21.03, endLon: 105.856, speedLimits: [[0, 80]] },
+    { id: 10, direction: 0, startLat: 21.03, startLon: 105.85, endLat: 21.0302, endLon: 105.8515, speedLimits: [[0, 30]] },
+    { id: 11, direction: 0, startLat: 21.0302, startLon: 105.8515, endLat: 21.0302, endLon: 105.8545, speedLimits: [[0, 30]] },
+    { id: 12, direction: 0, startLat: 21.0302, startLon: 105.8545, endLat: 21.03, endLon: 105.856, speedLimits: [[0, 30]] },
+  ],
+});
+
+// Driving east at ~10 m/s; between 105.8525 and 105.8535 the fixes drift 13m north
+function drive(speedKmh: number = 36): LocationData[] {
+  return Array.from({ length: 50 }, (_, second) => {
+    const longitude = 105.8505 + second * 0.0001;
+    const drifting = longitude > 105.8525 && longitude < 105.8535;
+    return {
+      latitude: drifting ? 21.03012 : 21.03,
+      longitude,
+      altitude: 0,
+      accuracy: 5,
+      speed: speedKmh / 3.6,
+      bearing: 90,
+      timestamp: t0 + second * 1000,
+    };
+  });
+}
+
+describe('MapMatcher', () => {
+  test('should stay on the connected road next to a parallel road', () => {
+    const fixes = drive();
+    const drifted = fixes.filter(fix => fix.latitude > 21.03);
+    // The drifted fixes are nearer to the frontage road
+    drifted.forEach(fix => expect(route.links[findNearestAlert(fix, route)!.nearestLinkIndex]!.id).toBe(11));
+
+    const matcher = new MapMatcher({ route });
+    const results: MapMatchResult[] = [];
+    matcher.addListener(result => results.push(result));
+    fixes.forEach(fix => matcher.processLocation(fix));
+
+    expect(results).toHaveLength(fixes.length);
+    expect(new Set(results.map(result => result.linkId))).toEqual(new Set([1, 2, 3]));
+    const linkIds = results.map(result => result.linkId);
+    expect(linkIds).toEqual([...linkIds].sort());
+
+    const driftedResult = results.find(result => result.location === drifted[0])!;
+    expect(driftedResult.latitude).toBeCloseTo(21.03, 6);
+    expect(driftedResult.distance).toBeCloseTo(13.3, 0);
+    expect(driftedResult.confidence).toBeGreaterThan(0.99);
+  });
+
+  test('should use the bearing to pick the carriageway of a divided road', () => {
+    const divided = processRouteData({
+      links: [
+        { id: 1, direction: 1, startLat: 21.03, startLon: 105.85, endLat: 21.03, endLon: 105.86 },
+        { id: 2, direction: 2, startLat: 21.03005, startLon: 105.85, endLat: 21.03005, endLon: 105.86 },
+      ],
+    });
+    const matcher = new MapMatcher({ route: divided });
+    const fix = drive()[0]!;
+
+    const eastbound = matcher.processLocation({ ...fix, latitude: 21.03004 });
+    expect(eastbound.linkId).toBe(1);
+    matcher.reset();
+    const westbound = matcher.processLocation({ ...fix, latitude: 21.03001, bearing: 270 });
+    expect(westbound.linkId).toBe(2);
+    // Without a usable bearing the distance alone decides, with low confidence
+    matcher.reset();
+    const slow = matcher.processLocation({ ...fix, latitude: 21.03001, speed: 0.2 });
+    expect(slow.linkId).toBe(1);
+    expect(slow.confidence).toBeLessThan(0.6);
+  });
+
+  test('should report unmatched fixes and restart afterwards', () => {
+    const matcher = new MapMatcher({ route, searchRadius: 30 });
+    const [first, second] = drive();
+
+    const lost = matcher.processLocation({ ...first!, latitude: 21.04 });
+    expect(lost).toMatchObject({ matched: false, linkId: null, linkIndex: -1, confidence: 0 });
+    expect(matcher.processLocation(second!)).toMatchObject({ matched: true, linkId: 1 });
+    expect(matcher.getLastResult()!.offset).toBeCloseTo(62.3, 0);
+  });
+});
+
+describe('SpeedViolationMonitor with map matching', () => {
+  beforeEach(() => {
+    setSpeedLimitTierLayout({ vehicleClassColumn: 0, speedLimitColumn: 1, vehicleClassCodes: { 0: 'all' } });
+  });
+
+  afterEach(() => {
+    setSpeedLimitTierLayout(null);
+  });
+
+  test('should take the limit of the matched road', () => {
+    const nearest = new SpeedViolationMonitor({ route, minDurationMs: 0 });
+    const matched = new SpeedViolationMonitor({ route, minDurationMs: 0, mapMatching: true });
+    const events: SpeedViolationEvent[] = [];
+    nearest.addListener(event => events.push(event));
+    matched.addListener(event => events.push(event));
+
+    drive(60).forEach(fix => {
+      nearest.processLocation(fix);
+      matched.processLocation(fix);
+    });
+
+    // Only the nearest-link monitor applies the frontage road's 30 km/h limit
+    expect(events.map(event => event.result.speedLimit)).toEqual([30, 80]);
+    expect(matched.getLastResult()!.speedLimit).toBe(80);
+  });
+});
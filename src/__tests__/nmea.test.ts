@@ -0,0 +1,173 @@
+import {
+  NMEAParser,
+  computeNMEAChecksum,
+  formatGGA,
+  formatRMC,
+  parseNMEA,
+  parseNMEASentence,
+  toNMEA,
+  validateNMEAChecksum,
+} from '../nmea';
+import { NMEA_FIX_QUALITY } from '../constants';
+import type { LocationData } from '../types';
+
+const GGA = '$GPGGA,123519,4807.038,N,01131.000,E,1,08,0.9,545.4,M,46.9,M,,*47';
+const RMC = '$GPRMC,123519,A,4807.038,N,01131.000,E,022.4,084.4,230394,003.1,W*6A';
+const VTG = '$GPVTG,054.7,T,034.4,M,005.5,N,010.2,K*48';
+const GSA = '$GPGSA,A,3,04,05,,09,12,,,24,,,,,2.5,1.3,2.1*39';
+
+function sentence(body: string): string {
+  return `$${body}*${computeNMEAChecksum(body)}`;
+}
+
+describe('NMEA sentences', () => {
+  test('should validate checksums', () => {
+    expect(validateNMEAChecksum(GGA)).toBe(true);
+    expect(validateNMEAChecksum(GGA.replace('*47', '*48'))).toBe(false);
+    expect(validateNMEAChecksum(GGA.slice(0, -3))).toBe(false);
+  });
+
+  test('should parse GGA, RMC, VTG and GSA', () => {
+    const gga = parseNMEASentence(GGA);
+    expect(gga).toMatchObject({
+      type: 'GGA',
+      talker: 'GP',
+      time: (12 * 3600 + 35 * 60 + 19) * 1000,
+      fixQuality: 1,
+      satellites: 8,
+      hdop: 0.9,
+      altitude: 545.4,
+    });
+    expect(gga).toHaveProperty('latitude', expect.closeTo(48.1173, 4));
+    expect(gga).toHaveProperty('longitude', expect.closeTo(11.5167, 4));
+
+    const rmc = parseNMEASentence(RMC);
+    expect(rmc).toMatchObject({ type: 'RMC', valid: true, date: Date.UTC(1994, 2, 23), course: 84.4 });
+    expect(rmc).toHaveProperty('speed', expect.closeTo(11.52, 2));
+
+    expect(parseNMEASentence(VTG)).toMatchObject({ type: 'VTG', course: 54.7 });
+    expect(parseNMEASentence(VTG)).toHaveProperty('speed', expect.closeTo(2.83, 2));
+    expect(parseNMEASentence(GSA)).toEqual({
+      type: 'GSA',
+      talker: 'GP',
+      fixType: 3,
+      satellites: [4, 5, 9, 12, 24],
+      pdop: 2.5,
+      hdop: 1.3,
+      vdop: 2.1,
+    });
+  });
+
+  test('should read southern and western hemispheres', () => {
+    const gga = parseNMEASentence(sentence('GNGGA,010203.50,3351.5000,S,15112.7500,W,2,12,1.0,5.0,M,,M,,'));
+    expect(gga).toMatchObject({ talker: 'GN', time: 3723500, longitude: -151.2125 });
+    expect(gga).toHaveProperty('latitude', expect.closeTo(-33.858333, 6));
+  });
+
+  test('should ignore unsupported and reject broken sentences', () => {
+    expect(parseNMEASentence(sentence('GPGSV,3,1,11,03,03,111,00'))).toBeNull();
+    expect(parseNMEASentence(sentence('PGRME,15.0,M,45.0,M,25.0,M'))).toBeNull();
+    expect(parseNMEASentence(GGA.replace('123519', '12351'))).toBeNull();
+    expect(parseNMEASentence('GPGGA,123519')).toBeNull();
+  });
+});
+
+describe('NMEAParser', () => {
+  test('should combine sentences of one fix into a location', () => {
+    const locations = parseNMEA([GGA, GSA, RMC, VTG].join('\r\n'));
+
+    expect(locations).toHaveLength(1);
+    const location = locations[0]!;
+    expect(location.latitude).toBeCloseTo(48.1173, 4);
+    expect(location.altitude).toBe(545.4);
+    // GPS fix: 5m at HDOP 1
+    expect(location.accuracy).toBeCloseTo(4.5, 6);
+    // RMC takes precedence over VTG
+    expect(location.speed).toBeCloseTo(11.52, 2);
+    expect(location.bearing).toBe(84.4);
+    expect(location.timestamp).toBe(Date.UTC(1994, 2, 23, 12, 35, 19));
+  });
+
+  test('should map fix quality to accuracy and drop invalid fixes', () => {
+    const fixes = [
+      sentence('GPGGA,000001,2101.7100,N,10551.2520,E,4,20,0.8,10.0,M,,M,,'),
+      sentence('GPGGA,000002,2101.7200,N,10551.2520,E,0,00,,,M,,M,,'),
+      sentence('GPRMC,000003,A,2101.7300,N,10551.2520,E,,,010125,,,D'),
+      sentence('GPRMC,000004,V,2101.7400,N,10551.2520,E,,,010125,,,N'),
+    ];
+    // The first GGA precedes any RMC date
+    const locations = parseNMEA(fixes.join('\n'), { date: Date.UTC(2025, 0, 1) });
+
+    expect(locations.map(location => location.timestamp)).toEqual([
+      Date.UTC(2025, 0, 1, 0, 0, 1),
+      Date.UTC(2025, 0, 1, 0, 0, 3),
+    ]);
+    expect(locations[0]!.accuracy).toBeCloseTo(0.04, 6);
+    expect(locations[1]!.accuracy).toBe(1.5);
+    // No speed in the RMC: derived from the previous fix (~37m in 2s)
+    expect(locations[1]!.speed).toBeCloseTo(18.5, 0);
+  });
+
+  test('should use the configured date and roll over at midnight', () => {
+    const locations = parseNMEA([
+      sentence('GPGGA,235959,2101.7100,N,10551.2520,E,1,08,1.0,10.0,M,,M,,'),
+      sentence('GPGGA,000000,2101.7100,N,10551.2520,E,1,08,1.0,10.0,M,,M,,'),
+    ].join('\n'), { date: Date.UTC(2025, 5, 30, 18) });
+
+    expect(locations.map(location => location.timestamp)).toEqual([
+      Date.UTC(2025, 5, 30, 23, 59, 59),
+      Date.UTC(2025, 6, 1),
+    ]);
+  });
+
+  test('should buffer partial chunks and report rejected sentences', () => {
+    const rejected: string[] = [];
+    const parser = new NMEAParser({
+      requireChecksum: true,
+      onRejected: (_, reason) => rejected.push(reason),
+    });
+    const received: LocationData[] = [];
+    parser.addListener(location => received.push(location));
+
+    const stream = `${GGA}\r\n${GGA.slice(0, -3)}\r\n${RMC.replace('*6A', '*00')}\r\n${RMC}\r\n`;
+    expect(parser.write(stream.slice(0, 30))).toEqual([]);
+    expect(parser.write(stream.slice(30))).toEqual([]);
+    expect(parser.flush()).not.toBeNull();
+
+    expect(received).toHaveLength(1);
+    expect(rejected).toEqual(['checksum', 'checksum']);
+  });
+});
+
+describe('NMEA generator', () => {
+  const location: LocationData = {
+    latitude: 21.028511,
+    longitude: -105.854199,
+    altitude: 12.3,
+    accuracy: 7.5,
+    speed: 12.5,
+    bearing: 271.2,
+    timestamp: Date.UTC(2025, 11, 31, 23, 59, 58, 250),
+  };
+
+  test('should format valid GGA and RMC sentences', () => {
+    const gga = formatGGA(location);
+    const rmc = formatRMC(location, { talker: 'GN' });
+
+    expect(gga).toBe(sentence('GPGGA,235958.25,2101.71066,N,10551.25194,W,1,08,1.5,12.3,M,,M,,'));
+    expect(rmc.startsWith('$GNRMC,235958.25,A,2101.71066,N,10551.25194,W,24.30,271.2,311225,,,A*')).toBe(true);
+    expect(validateNMEAChecksum(rmc)).toBe(true);
+  });
+
+  test('should round-trip through the parser', () => {
+    const [parsed] = parseNMEA(toNMEA(location, { fixQuality: NMEA_FIX_QUALITY.DGPS, hdop: 5 }).join('\n'));
+
+    expect(parsed!.latitude).toBeCloseTo(location.latitude, 6);
+    expect(parsed!.longitude).toBeCloseTo(location.longitude, 6);
+    expect(parsed!.altitude).toBe(location.altitude);
+    expect(parsed!.accuracy).toBe(location.accuracy);
+    expect(parsed!.speed).toBeCloseTo(location.speed, 2);
+    expect(parsed!.bearing).toBe(location.bearing);
+    expect(parsed!.timestamp).toBe(location.timestamp);
+  });
+});
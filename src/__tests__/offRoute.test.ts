@@ -0,0 +1,135 @@
+import { OffRouteDetector } from '../offRoute';
+import type { OffRouteEvent } from '../offRoute';
+import { processRouteData } from '../route';
+import { TrackingSimulator } from '../simulator';
+import type { LocationData } from '../types';
+
+const t0 = 1700000000000;
+
+// East along 21.03, then north along 105.86
+const route = processRouteData({
+  links: [
+    { id: 1, direction: 0, startLat: 21.03, startLon: 105.85, endLat: 21.03, endLon: 105.855 },
+    { id: 2, direction: 0, startLat: 21.03, startLon: 105.855, endLat: 21.03, endLon: 105.86 },
+    { id: 3, direction: 0, startLat: 21.03, startLon: 105.86, endLat: 21.035, endLon: 105.86 },
+  ],
+});
+
+// ~11m per 0.0001 degree of latitude
+function fix(second: number, latitude: number, longitude: number): LocationData {
+  return { latitude, longitude, altitude: 0, accuracy: 5, speed: 10, bearing: 90, timestamp: t0 + second * 1000 };
+}
+
+describe('OffRouteDetector', () => {
+  test('should ignore single GPS spikes', () => {
+    const detector = new OffRouteDetector({ route, corridorWidth: 30, offRouteFixes: 3 });
+    const events: OffRouteEvent[] = [];
+    detector.addListener(event => events.push(event));
+
+    detector.processLocation(fix(0, 21.03, 105.851));
+    detector.processLocation(fix(1, 21.031, 105.8511)); // ~111m spike
+    detector.processLocation(fix(2, 21.03, 105.8512));
+    detector.processLocation(fix(3, 21.0305, 105.8513));
+    detector.processLocation(fix(4, 21.0305, 105.8514));
+    detector.processLocation(fix(5, 21.03001, 105.8515));
+
+    expect(events).toHaveLength(0);
+    expect(detector.isOffRoute()).toBe(false);
+    expect(detector.getDistanceFromRoute()).toBeCloseTo(1.1, 0);
+  });
+
+  test('should emit offRoute after consecutive fixes and a forward rejoin point', () => {
+    const detector = new OffRouteDetector({ route, corridorWidth: 30, offRouteFixes: 3, onRouteFixes: 2 });
+    const events: OffRouteEvent[] = [];
+    detector.addListener(event => events.push(event));
+
+    // On link 2, then turning south onto a side street
+    detector.processLocation(fix(0, 21.03, 105.856));
+    detector.processLocation(fix(1, 21.03, 105.857));
+    [1, 2, 3, 4].forEach(i => detector.processLocation(fix(1 + i, 21.03 - i * 0.0003, 105.857)));
+
+    expect(events).toHaveLength(1);
+    const offRoute = events[0]!;
+    expect(offRoute.type).toBe('offRoute');
+    expect(offRoute.offRouteSince).toBe(t0 + 2000);
+    expect(offRoute.location.timestamp).toBe(t0 + 4000);
+    expect(offRoute.distanceFromRoute).toBeCloseTo(100, -1);
+    expect(offRoute.rejoinPoint).toMatchObject({ linkId: 2, linkIndex: 1 });
+    expect(offRoute.rejoinPoint.latitude).toBeCloseTo(21.03, 6);
+    expect(offRoute.rejoinPoint.longitude).toBeCloseTo(105.857, 6);
+    expect(detector.isOffRoute()).toBe(true);
+  });
+
+  test('should skip route parts already driven when picking the rejoin point', () => {
+    const detector = new OffRouteDetector({ route, offRouteFixes: 2 });
+    const events: OffRouteEvent[] = [];
+    detector.addListener(event => events.push(event));
+
+    // Drove up link 3, then left west: link 1 is nearer but already behind
+    detector.processLocation(fix(0, 21.034, 105.86));
+    detector.processLocation(fix(1, 21.0315, 105.8545));
+    detector.processLocation(fix(2, 21.0312, 105.8545));
+
+    expect(events[0]!.rejoinPoint.linkId).toBe(3);
+  });
+
+  test('should not skip ahead on a looping route', () => {
+    // Square loop ending where it starts
+    const loop = processRouteData({
+      links: [
+        { id: 1, direction: 0, startLat: 21.03, startLon: 105.85, endLat: 21.03, endLon: 105.855 },
+        { id: 2, direction: 0, startLat: 21.03, startLon: 105.855, endLat: 21.035, endLon: 105.855 },
+        { id: 3, direction: 0, startLat: 21.035, startLon: 105.855, endLat: 21.035, endLon: 105.85 },
+        { id: 4, direction: 0, startLat: 21.035, startLon: 105.85, endLat: 21.03, endLon: 105.85 },
+      ],
+    });
+    const detector = new OffRouteDetector({ route: loop, offRouteFixes: 2 });
+    const events: OffRouteEvent[] = [];
+    detector.addListener(event => events.push(event));
+
+    // Starting 3m from link 1 but on the closing link 4
+    detector.processLocation(fix(0, 21.03003, 105.85));
+    detector.processLocation(fix(1, 21.03, 105.852));
+    detector.processLocation(fix(2, 21.029, 105.853));
+    detector.processLocation(fix(3, 21.0288, 105.853));
+
+    expect(events[0]!.rejoinPoint).toMatchObject({ linkId: 1, linkIndex: 0 });
+  });
+
+  test('should emit backOnRoute after returning to the corridor', () => {
+    const simulator = new TrackingSimulator();
+    const detector = new OffRouteDetector({ route, offRouteFixes: 2, onRouteFixes: 2 });
+    const events: OffRouteEvent[] = [];
+    detector.addListener(event => events.push(event));
+    detector.start(simulator);
+
+    simulator.emit('onLocationUpdate', fix(0, 21.03, 105.851));
+    simulator.emit('onLocationUpdate', fix(1, 21.031, 105.852));
+    simulator.emit('onLocationUpdate', fix(2, 21.031, 105.853));
+    // One fix back inside is not enough
+    simulator.emit('onLocationUpdate', fix(3, 21.03, 105.854));
+    simulator.emit('onLocationUpdate', fix(4, 21.031, 105.855));
+    simulator.emit('onLocationUpdate', fix(5, 21.0301, 105.8562));
+    simulator.emit('onLocationUpdate', fix(6, 21.0301, 105.8572));
+    detector.stop();
+    simulator.emit('onLocationUpdate', fix(7, 21.04, 105.8572));
+
+    expect(events.map(event => event.type)).toEqual(['offRoute', 'backOnRoute']);
+    expect(events[1]).toMatchObject({ offRouteSince: t0 + 1000, rejoinPoint: { linkId: 2 } });
+    expect(detector.isOffRoute()).toBe(false);
+  });
+
+  test('should reset when the route is replaced', () => {
+    const detector = new OffRouteDetector({ route, offRouteFixes: 1 });
+    expect(detector.processLocation(fix(0, 21.04, 105.85))!.type).toBe('offRoute');
+
+    detector.setRoute(processRouteData({
+      links: [{ id: 9, direction: 0, startLat: 21.04, startLon: 105.84, endLat: 21.04, endLon: 105.86 }],
+    }));
+    expect(detector.isOffRoute()).toBe(false);
+    expect(detector.processLocation(fix(1, 21.04, 105.85))).toBeNull();
+
+    detector.setRoute(null);
+    expect(detector.processLocation(fix(2, 21.05, 105.85))).toBeNull();
+  });
+});
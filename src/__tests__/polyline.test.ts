@@ -0,0 +1,98 @@
+import { decodePolyline, decodeTrack, encodePolyline, encodeTrack } from '../polyline';
+import { TrackingSession } from '../session';
+import type { RecordedLocation } from '../types';
+
+// Example from the Google polyline algorithm documentation
+const GOOGLE_POINTS = [
+  { lat: 38.5, lon: -120.2 },
+  { lat: 40.7, lon: -120.95 },
+  { lat: 43.252, lon: -126.453 },
+];
+const GOOGLE_POLYLINE = '_p~iF~ps|U_ulLnnqC_mqNvxq`@';
+
+const start = Date.UTC(2025, 0, 1, 8, 0, 0);
+
+function createTrack(): RecordedLocation[] {
+  return Array.from({ length: 50 }, (_, i) => ({
+    latitude: 21.0285 + i * 0.000123456,
+    longitude: 105.8542 - i * 0.000098765,
+    timestamp: start + i * 1000 + (i % 3) * 7,
+    speed: i % 10 === 0 ? undefined : 8 + (i % 7) * 0.37,
+  }));
+}
+
+describe('Encoded polyline', () => {
+  test('should match the reference encoding', () => {
+    expect(encodePolyline(GOOGLE_POINTS)).toBe(GOOGLE_POLYLINE);
+    expect(decodePolyline(GOOGLE_POLYLINE)).toEqual(GOOGLE_POINTS);
+    expect(encodePolyline([])).toBe('');
+  });
+
+  test('should round-trip session history at precision 5 and 6', () => {
+    const session = new TrackingSession();
+    createTrack().forEach(location => session.addLocation(location.latitude, location.longitude, location.timestamp));
+    const history = session.getHistory();
+
+    for (const precision of [5, 6] as const) {
+      const factor = 10 ** precision;
+      const encoded = encodePolyline(history, precision);
+      const decoded = decodePolyline(encoded, precision);
+
+      expect(decoded).toEqual(history.map(point => ({
+        lat: Math.round(point.lat * factor) / factor,
+        lon: Math.round(point.lon * factor) / factor,
+      })));
+      expect(encodePolyline(decoded, precision)).toBe(encoded);
+    }
+    expect(encodePolyline(history, 6).length).toBeLessThan(JSON.stringify(history).length / 5);
+  });
+
+  test('should reject malformed input', () => {
+    expect(() => decodePolyline('_p~iF~ps|')).toThrow('Invalid encoded polyline');
+    expect(() => decodePolyline('abc ')).toThrow('unexpected character');
+    expect(() => decodePolyline('_p~iF~ps|U_ulL')).toThrow('2-value points');
+    expect(() => encodePolyline(GOOGLE_POINTS, 7 as 5)).toThrow('Unsupported polyline precision 7');
+  });
+});
+
+describe('Extended track encoding', () => {
+  test('should round-trip coordinates, timestamps and speeds', () => {
+    const track = createTrack();
+    const decoded = decodeTrack(encodeTrack(track, { precision: 6 }));
+
+    expect(decoded).toHaveLength(track.length);
+    decoded.forEach((location, i) => {
+      const original = track[i]!;
+      expect(location.latitude).toBe(Math.round(original.latitude * 1e6) / 1e6);
+      expect(location.longitude).toBe(Math.round(original.longitude * 1e6) / 1e6);
+      expect(location.timestamp).toBe(original.timestamp);
+      if (original.speed === undefined) {
+        expect(location).not.toHaveProperty('speed');
+      } else {
+        expect(location.speed).toBe(Math.round(original.speed * 100) / 100);
+      }
+    });
+  });
+
+  test('should omit speeds when disabled', () => {
+    const track = createTrack();
+    const withSpeed = encodeTrack(track);
+    const withoutSpeed = encodeTrack(track, { includeSpeed: false });
+
+    expect(withoutSpeed.length).toBeLessThan(withSpeed.length);
+    expect(decodeTrack(withoutSpeed).every(location => location.speed === undefined)).toBe(true);
+    expect(decodeTrack(withoutSpeed)[0]).toEqual({ latitude: 21.0285, longitude: 105.8542, timestamp: start });
+  });
+
+  test('should be stable when re-encoded', () => {
+    const encoded = encodeTrack(createTrack());
+    expect(encodeTrack(decodeTrack(encoded))).toBe(encoded);
+    expect(decodeTrack(encodeTrack([]))).toEqual([]);
+  });
+
+  test('should reject malformed tracks', () => {
+    expect(() => decodeTrack('')).toThrow('missing header');
+    expect(() => decodeTrack(encodeTrack(createTrack()).slice(0, -1))).toThrow('Invalid encoded polyline');
+    expect(() => decodeTrack(encodePolyline(GOOGLE_POINTS))).toThrow();
+  });
+});
@@ -0,0 +1,150 @@
+import { TripReplay } from '../replay';
+import { TrackingSimulator } from '../simulator';
+import { TrackingSession } from '../session';
+import { toGPX, parseGPX } from '../export';
+import { GeofenceManager } from '../geofence';
+import { setTrackingBackend, resetTrackingBackend } from '../backend';
+import { addLocationUpdateListener } from '../index';
+import type { LocationData, RecordedLocation, TrackingStatus } from '../types';
+
+const t0 = 1700000000000;
+
+// Heading north, one fix every 5 seconds, ~55m apart
+const track: RecordedLocation[] = Array.from({ length: 6 }, (_, i) => ({
+  latitude: 21.0285 + i * 0.0005,
+  longitude: 105.8542,
+  timestamp: t0 + i * 5000,
+}));
+
+describe('TripReplay', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    resetTrackingBackend();
+  });
+
+  test('should replay in accelerated time with pause and resume', () => {
+    const replay = new TripReplay(track, { speed: 5 });
+    const locations: LocationData[] = [];
+    const statuses: TrackingStatus[] = [];
+    replay.addListener('onLocationUpdate', location => locations.push(location));
+    replay.addListener('onTrackingStatusChanged', status => statuses.push(status));
+
+    replay.play();
+    jest.advanceTimersByTime(0);
+    expect(locations).toHaveLength(1);
+
+    // 5s recorded gaps at 5x speed
+    jest.advanceTimersByTime(1000);
+    expect(locations).toHaveLength(2);
+    expect(locations[1]!.speed).toBeCloseTo(11.1, 1);
+    expect(locations[1]!.bearing).toBeCloseTo(0, 3);
+
+    replay.pause();
+    jest.advanceTimersByTime(10000);
+    expect(locations).toHaveLength(2);
+
+    replay.play();
+    jest.advanceTimersByTime(4000);
+    expect(locations.map(location => location.timestamp)).toEqual(track.map(fix => fix.timestamp));
+    expect(replay.getState()).toBe('finished');
+    expect(statuses.map(status => status.isTracking)).toEqual([true, false, true, false]);
+    expect(statuses[3]!.trackingDuration).toBe(25000);
+  });
+
+  test('should step and seek', () => {
+    const replay = new TripReplay(track, { mode: 'stepped' });
+    const locations: LocationData[] = [];
+    replay.addListener('onLocationUpdate', location => locations.push(location));
+
+    replay.play();
+    jest.advanceTimersByTime(60000);
+    expect(locations).toHaveLength(0);
+
+    replay.step();
+    replay.seekToTime(t0 + 20000);
+    expect(replay.getPosition()).toEqual({ index: 4, total: 6 });
+    const location = replay.step();
+
+    expect(location!.timestamp).toBe(t0 + 20000);
+    expect(location!.speed).toBeCloseTo(11.1, 1);
+    replay.seek(0);
+    expect(replay.step()!.timestamp).toBe(t0);
+  });
+
+  test('should rebase timestamps to the playback start', () => {
+    jest.setSystemTime(t0 + 86400000);
+    const replay = new TripReplay(track, { mode: 'stepped', rebaseTimestamps: true });
+    replay.step();
+    expect(replay.step()!.timestamp).toBe(t0 + 86400000 + 5000);
+  });
+
+  test('should drive global listeners and managers through a simulator backend', () => {
+    const simulator = new TrackingSimulator();
+    setTrackingBackend(simulator);
+    const received: LocationData[] = [];
+    addLocationUpdateListener(location => received.push(location));
+
+    const geofences = new GeofenceManager();
+    geofences.addGeofence({ id: 'end', type: 'circle', latitude: 21.031, longitude: 105.8542, radius: 30 });
+    const transitions: string[] = [];
+    geofences.addListener(event => transitions.push(`${event.type}:${event.fence.id}`));
+    geofences.start();
+
+    const replay = new TripReplay(track, { speed: 100, target: simulator });
+    replay.play();
+    jest.runAllTimers();
+
+    expect(received).toHaveLength(6);
+    expect(transitions).toEqual(['enter:end']);
+    geofences.stop();
+  });
+
+  test('should finish an empty track right away', () => {
+    const onComplete = jest.fn();
+    const replay = TripReplay.fromGPX('<gpx><trk><trkseg></trkseg></trk></gpx>', { onComplete });
+    const statuses: TrackingStatus[] = [];
+    replay.addListener('onTrackingStatusChanged', status => statuses.push(status));
+
+    replay.play();
+    expect(replay.getState()).toBe('finished');
+    expect(onComplete).toHaveBeenCalledTimes(1);
+    expect(statuses.map(status => status.isTracking)).toEqual([true, false]);
+    expect(replay.step()).toBeNull();
+
+    const stepped = new TripReplay([], { mode: 'stepped' });
+    stepped.play();
+    expect(stepped.getState()).toBe('finished');
+  });
+
+  test('should replay GPX files and session history', () => {
+    const session = new TrackingSession();
+    track.forEach(fix => session.addLocation(fix.latitude, fix.longitude, fix.timestamp));
+
+    const fromGPX = TripReplay.fromGPX(toGPX(session), { mode: 'stepped' });
+    const fromSession = TripReplay.fromSession(session, { mode: 'stepped' });
+    expect(fromGPX.step()).toEqual(fromSession.step());
+    expect(fromGPX.getPosition().total).toBe(6);
+  });
+});
+
+describe('parseGPX', () => {
+  test('should read points and extensions written by toGPX', () => {
+    const recorded: RecordedLocation[] = [
+      { latitude: 21.0285, longitude: 105.8542, timestamp: t0, altitude: 12, speed: 8.5, bearing: 45, accuracy: 4 },
+      { latitude: 21.029, longitude: 105.855, timestamp: t0 + 1000 },
+    ];
+    expect(parseGPX(toGPX(recorded, { extensions: true }))).toEqual(recorded);
+  });
+
+  test('should space points without time one second apart', () => {
+    const gpx = '<gpx><trk><trkseg><trkpt lon="105.1" lat="21.1"/><trkpt lat="21.2" lon="105.2"></trkpt></trkseg></trk></gpx>';
+    expect(parseGPX(gpx)).toEqual([
+      { latitude: 21.1, longitude: 105.1, timestamp: 0 },
+      { latitude: 21.2, longitude: 105.2, timestamp: 1000 },
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { processRouteData, findNearestAlert } from '../route';
+import { RouteDataError } from '../errors';
+
+const routeJson = {
+  links: [
+    {
+      id: 101,
+      direction: 0,
+      startLat: 21.0285,
+      startLon: 105.8542,
+      endLat: 21.0295,
+      endLon: 105.8542,
+      distance: 111.2,
+      speedLimits: [[1, 50]],
+    },
+    { id: 102, direction: 1, startLat: 21.0295, startLon: 105.8542, endLat: 21.0295, endLon: 105.8552 },
+  ],
+  alerts: [{ type: 1, subtype: 2, speedLimit: 50 }, { type: 3 }],
+  offset: [[0, 20], [1, 0]],
+};
+
+describe('processRouteData', () => {
+  test('should parse links, alerts and offsets', () => {
+    const route = processRouteData(routeJson);
+
+    expect(route.totalLinks).toBe(2);
+    expect(route.totalAlerts).toBe(2);
+    expect(route.links[0]).toEqual(routeJson.links[0]);
+    expect(route.links[1]!.speedLimits).toEqual([]);
+    expect(route.links[1]!.distance).toBeCloseTo(103.9, 0);
+    expect(route.alerts).toEqual(routeJson.alerts);
+    expect(route.offset).toEqual([[0, 20], [1, 0]]);
+  });
+
+  test('should accept a JSON string', () => {
+    expect(processRouteData(JSON.stringify(routeJson))).toEqual(processRouteData(routeJson));
+  });
+
+  test('should report every malformed link', () => {
+    const malformed = {
+      links: [
+        { ...routeJson.links[0], startLat: 95 },
+        { ...routeJson.links[1], direction: 'oneway', endLon: 'east' },
+        null,
+      ],
+      alerts: [{ type: 1 }],
+      offset: [[5, 0]],
+    };
+
+    let error: unknown;
+    try {
+      processRouteData(malformed);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(RouteDataError);
+    expect((error as RouteDataError).code).toBe('INVALID_ROUTE_DATA');
+    expect((error as RouteDataError).recoverable).toBe(false);
+    expect((error as RouteDataError).errors).toEqual([
+      'links[0].startLat must be between -90 and 90',
+      'links[1].direction must be a number',
+      'links[1].endLon must be a number',
+      'links[2] must be an object',
+      'offset[0] references missing link 5',
+    ]);
+  });
+
+  test('should treat unknown direction codes as two-way with a warning', () => {
+    const route = processRouteData({ links: [{ ...routeJson.links[1], direction: 7 }] });
+    expect(route.links[0]!.direction).toBe(0);
+    expect(route.warnings).toEqual(['links[0].direction 7 is not one of 0, 1, 2 (treated as two-way)']);
+  });
+
+  test('should reject invalid JSON and missing links', () => {
+    expect(() => processRouteData('{')).toThrow(RouteDataError);
+    expect(() => processRouteData('{}')).toThrow('links must be an array');
+  });
+});
+
+describe('findNearestAlert', () => {
+  // Divided road running east: northbound carriageway one-way east, southern one-way west
+  const route = processRouteData({
+    links: [
+      { id: 1, direction: 1, startLat: 21.0300, startLon: 105.8500, endLat: 21.0300, endLon: 105.8600 },
+      { id: 2, direction: 2, startLat: 21.0299, startLon: 105.8500, endLat: 21.0299, endLon: 105.8600 },
+      { id: 3, direction: 0, startLat: 21.0300, startLon: 105.8600, endLat: 21.0400, endLon: 105.8600 },
+    ],
+    alerts: [{ type: 1, speedLimit: 60 }, { type: 2, speedLimit: 40 }, { type: 5 }],
+    offset: [[0, 100], [1, 100], [2, 0]],
+  });
+
+  test('should return the nearest link with its alerts', () => {
+    const result = findNearestAlert({ latitude: 21.03002, longitude: 105.855 }, route);
+
+    expect(result!.nearestLinkIndex).toBe(0);
+    expect(result!.distanceToLink).toBeCloseTo(2.2, 1);
+    expect(result!.alerts).toEqual([{ type: 1, speedLimit: 60 }]);
+  });
+
+  test('should skip one-way links against the current bearing', () => {
+    // Closer to the eastbound carriageway but driving west
+    const westbound = findNearestAlert(
+      { latitude: 21.02998, longitude: 105.855, bearing: 270, speed: 15 },
+      route
+    );
+    expect(westbound!.nearestLinkIndex).toBe(1);
+    expect(westbound!.alerts).toEqual([{ type: 2, speedLimit: 40 }]);
+
+    // Bearing is ignored when nearly stationary
+    const parked = findNearestAlert(
+      { latitude: 21.02998, longitude: 105.855, bearing: 270, speed: 0.2 },
+      route
+    );
+    expect(parked!.nearestLinkIndex).toBe(0);
+  });
+
+  test('should accept either direction on two-way links', () => {
+    const northbound = findNearestAlert({ latitude: 21.035, longitude: 105.8601, bearing: 0, speed: 10 }, route);
+    const southbound = findNearestAlert({ latitude: 21.035, longitude: 105.8601, bearing: 180, speed: 10 }, route);
+
+    expect(northbound!.nearestLinkIndex).toBe(2);
+    expect(southbound!.nearestLinkIndex).toBe(2);
+  });
+
+  test('should return null when no link qualifies', () => {
+    expect(findNearestAlert({ latitude: 21.1, longitude: 105.9 }, route, { maxDistance: 500 })).toBeNull();
+    expect(findNearestAlert({ latitude: 21.03, longitude: 105.85 }, processRouteData({ links: [] }))).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import { RouteProgressTracker } from '../routeProgress';
+import type { RouteProgress } from '../routeProgress';
+import { processRouteData } from '../route';
+import { setSpeedLimitTierLayout } from '../speedLimits';
+import { TrackingSimulator } from '../simulator';
+import type { LocationData } from '../types';
+
+const t0 = 1700000000000;
+
+// East along 21.03, then north along 105.86; 500m per link
+const route = processRouteData({
+  links: [
+    { id: 1, direction: 0, startLat: 21.03, startLon: 105.85, endLat: 21.03, endLon: 105.855, distance: 500, speedLimits: [[0, 60]] },
+    { id: 2, direction: 0, startLat: 21.03, startLon: 105.855, endLat: 21.03, endLon: 105.86, distance: 500, speedLimits: [[2, 36]] },
+    { id: 3, direction: 0, startLat: 21.03, startLon: 105.86, endLat: 21.035, endLon: 105.86, distance: 500 },
+  ],
+});
+
+function fix(second: number, latitude: number, longitude: number, speed: number = 10): LocationData {
+  return { latitude, longitude, altitude: 0, accuracy: 5, speed, bearing: 90, timestamp: t0 + second * 1000 };
+}
+
+describe('RouteProgressTracker', () => {
+  afterEach(() => {
+    setSpeedLimitTierLayout(null);
+  });
+
+  test('should fall back to link speed limits before the vehicle moves', () => {
+    setSpeedLimitTierLayout({ vehicleClassColumn: 0, speedLimitColumn: 1, vehicleClassCodes: { 0: 'all', 2: 'truck' } });
+    const tracker = new RouteProgressTracker({ route, defaultSpeedKmh: 36 });
+    const progress = tracker.processLocation(fix(0, 21.03, 105.8525, 0))!;
+
+    expect(progress).toMatchObject({ linkIndex: 0, linkId: 1, totalDistance: 1500, onRoute: true, arrived: false });
+    expect(progress.distanceTravelled).toBeCloseTo(250, 0);
+    expect(progress.distanceRemaining).toBeCloseTo(1250, 0);
+    expect(progress.percentComplete).toBeCloseTo(16.7, 1);
+    // 250m at 60 km/h, then 1000m at the 36 km/h default (the link 2 limit is for trucks)
+    expect(progress.etaSource).toBe('speedLimits');
+    expect(progress.remainingTime).toBeCloseTo(115000, -2);
+    expect(progress.eta).toBe(t0 + progress.remainingTime);
+  });
+
+  test('should estimate from the recent moving speed', () => {
+    const tracker = new RouteProgressTracker({ route });
+    tracker.processLocation(fix(0, 21.03, 105.8525, 8));
+    const progress = tracker.processLocation(fix(50, 21.03, 105.8575, 12))!;
+
+    expect(progress).toMatchObject({ linkIndex: 1, linkId: 2, etaSource: 'movingSpeed' });
+    expect(progress.distanceRemaining).toBeCloseTo(750, 0);
+    expect(progress.remainingTime).toBeCloseTo(75000, -2);
+    expect(tracker.getProgress()).toBe(progress);
+  });
+
+  test('should ignore stops and fixes outside the speed window', () => {
+    const tracker = new RouteProgressTracker({ route, speedWindowMs: 60000, defaultSpeedKmh: 36 });
+    tracker.processLocation(fix(0, 21.03, 105.851, 20));
+    tracker.processLocation(fix(10, 21.03, 105.852, 0));
+    expect(tracker.processLocation(fix(20, 21.03, 105.852, 0))!.etaSource).toBe('movingSpeed');
+
+    const progress = tracker.processLocation(fix(80, 21.03, 105.852, 0))!;
+    expect(progress.etaSource).toBe('speedLimits');
+  });
+
+  test('should derive speed from along-track progress when the fix has none', () => {
+    const tracker = new RouteProgressTracker({ route });
+    tracker.processLocation(fix(0, 21.03, 105.8525, -1));
+    const progress = tracker.processLocation(fix(50, 21.03, 105.8575, -1))!;
+
+    expect(progress.etaSource).toBe('movingSpeed');
+    // 500m in 50s
+    expect(progress.remainingTime).toBeCloseTo(75000, -2);
+  });
+
+  test('should only move forward and hold progress off the route', () => {
+    const tracker = new RouteProgressTracker({ route });
+    tracker.processLocation(fix(0, 21.034, 105.86));
+
+    // Back near link 1, which is already behind
+    const away = tracker.processLocation(fix(10, 21.0301, 105.851))!;
+    expect(away).toMatchObject({ onRoute: false, linkIndex: 2, linkId: 3 });
+    expect(away.distanceTravelled).toBeCloseTo(1400, 0);
+
+    const arrived = tracker.processLocation(fix(20, 21.0349, 105.86))!;
+    expect(arrived).toMatchObject({ onRoute: true, arrived: true });
+    expect(arrived.percentComplete).toBeGreaterThan(98);
+  });
+
+  test('should not skip ahead on a looping route', () => {
+    // Square loop ending where it starts
+    const loop = processRouteData({
+      links: [
+        { id: 1, direction: 0, startLat: 21.03, startLon: 105.85, endLat: 21.03, endLon: 105.855, distance: 500 },
+        { id: 2, direction: 0, startLat: 21.03, startLon: 105.855, endLat: 21.035, endLon: 105.855, distance: 500 },
+        { id: 3, direction: 0, startLat: 21.035, startLon: 105.855, endLat: 21.035, endLon: 105.85, distance: 500 },
+        { id: 4, direction: 0, startLat: 21.035, startLon: 105.85, endLat: 21.03, endLon: 105.85, distance: 500 },
+      ],
+    });
+    const tracker = new RouteProgressTracker({ route: loop });
+
+    // 3m from the start, but right on the closing link
+    const start = tracker.processLocation(fix(0, 21.03003, 105.85))!;
+    expect(start).toMatchObject({ linkIndex: 0, onRoute: true, arrived: false });
+    expect(start.percentComplete).toBeLessThan(1);
+
+    expect(tracker.processLocation(fix(50, 21.03, 105.8525))!.distanceTravelled).toBeCloseTo(250, 0);
+  });
+
+  test('should follow the return leg of an out-and-back route', () => {
+    const outAndBack = processRouteData({
+      links: [
+        { id: 1, direction: 0, startLat: 21.03, startLon: 105.85, endLat: 21.03, endLon: 105.855, distance: 500 },
+        { id: 2, direction: 0, startLat: 21.03, startLon: 105.855, endLat: 21.03, endLon: 105.85, distance: 500 },
+      ],
+    });
+    const tracker = new RouteProgressTracker({ route: outAndBack });
+
+    expect(tracker.processLocation(fix(0, 21.03, 105.851))!.distanceTravelled).toBeCloseTo(100, 0);
+    expect(tracker.processLocation(fix(40, 21.03, 105.8549))!.distanceTravelled).toBeCloseTo(490, 0);
+
+    const back = tracker.processLocation(fix(50, 21.03, 105.8545))!;
+    expect(back).toMatchObject({ linkIndex: 1, linkId: 2 });
+    expect(back.distanceTravelled).toBeCloseTo(550, 0);
+    expect(tracker.processLocation(fix(90, 21.03, 105.8501))!.percentComplete).toBeGreaterThan(98);
+  });
+
+  test('should publish progress from the location stream', () => {
+    const simulator = new TrackingSimulator();
+    const tracker = new RouteProgressTracker({ route });
+    const updates: RouteProgress[] = [];
+    tracker.addListener(progress => updates.push(progress));
+    tracker.start(simulator);
+
+    simulator.emit('onLocationUpdate', fix(0, 21.03, 105.851));
+    simulator.emit('onLocationUpdate', fix(10, 21.03, 105.856));
+    tracker.stop();
+    simulator.emit('onLocationUpdate', fix(20, 21.03, 105.859));
+
+    expect(updates.map(progress => progress.linkId)).toEqual([1, 2]);
+  });
+
+  test('should restart when the route is replaced', () => {
+    const tracker = new RouteProgressTracker({ route });
+    tracker.processLocation(fix(0, 21.034, 105.86));
+
+    tracker.setRoute(processRouteData({
+      links: [{ id: 9, direction: 0, startLat: 21.04, startLon: 105.84, endLat: 21.04, endLon: 105.86, distance: 2000 }],
+    }));
+    expect(tracker.getProgress()).toBeNull();
+    expect(tracker.processLocation(fix(1, 21.04, 105.85))!.distanceTravelled).toBeCloseTo(1000, 0);
+
+    tracker.setRoute(null);
+    expect(tracker.processLocation(fix(2, 21.04, 105.85))).toBeNull();
+  });
+});
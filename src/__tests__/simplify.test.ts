@@ -0,0 +1,84 @@
+import { simplifyDouglasPeucker, simplifyVisvalingam, StreamingSimplifier } from '../simplify';
+import { TrackingSession } from '../session';
+import { projectOntoSegment } from '../geometry';
+import type { RecordedLocation } from '../types';
+
+const t0 = 1700000000000;
+const metersPerDegree = 111195;
+
+// Zig-zag road: 5 legs of 500m alternating north-east / south-east, with 2m noise
+function zigzag(pointsPerLeg: number): RecordedLocation[] {
+  const points: RecordedLocation[] = [];
+  for (let leg = 0; leg < 5; leg++) {
+    for (let i = 0; i < pointsPerLeg; i++) {
+      const along = (i / pointsPerLeg) * 500;
+      const north = leg % 2 === 0 ? along : 500 - along;
+      const noise = ((i * 7919) % 5) - 2;
+      points.push({
+        latitude: 21.0 + (north + noise) / metersPerDegree,
+        longitude: 105.8 + (leg * 500 + along) / metersPerDegree,
+        timestamp: t0 + points.length * 1000,
+      });
+    }
+  }
+  return points;
+}
+
+function maxDeviation(original: RecordedLocation[], simplified: RecordedLocation[]): number {
+  let max = 0;
+  original.forEach(point => {
+    let best = Infinity;
+    for (let i = 0; i < simplified.length - 1; i++) {
+      const a = simplified[i]!;
+      const b = simplified[i + 1]!;
+      best = Math.min(best, projectOntoSegment(
+        point.latitude, point.longitude, a.latitude, a.longitude, b.latitude, b.longitude
+      ).distance);
+    }
+    max = Math.max(max, best);
+  });
+  return max;
+}
+
+describe('Track simplification', () => {
+  const track = zigzag(200);
+
+  test('Douglas-Peucker should keep corners within tolerance', () => {
+    const simplified = simplifyDouglasPeucker(track, 10);
+    expect(simplified.length).toBeLessThan(20);
+    expect(simplified[0]).toBe(track[0]);
+    expect(simplified[simplified.length - 1]).toBe(track[track.length - 1]);
+    expect(maxDeviation(track, simplified)).toBeLessThanOrEqual(10);
+  });
+
+  test('Visvalingam-Whyatt should drop insignificant points', () => {
+    const simplified = simplifyVisvalingam(track, 10);
+    expect(simplified.length).toBeLessThan(40);
+    expect(maxDeviation(track, simplified)).toBeLessThan(20);
+  });
+
+  test('TrackingSession should return simplified history', () => {
+    const session = new TrackingSession();
+    session.start();
+    track.forEach(point => session.addLocation(point.latitude, point.longitude, point.timestamp));
+
+    const simplified = session.getSimplifiedHistory({ toleranceMeters: 10, algorithm: 'visvalingam' });
+    expect(simplified.length).toBeLessThan(40);
+    expect(simplified[0]).toEqual(session.getHistory()[0]);
+  });
+
+  test('StreamingSimplifier should keep a bounded buffer', () => {
+    const simplifier = new StreamingSimplifier({ toleranceMeters: 10 });
+    track.forEach(point => simplifier.add(point));
+
+    const points = simplifier.getPoints();
+    expect(points.length).toBeLessThan(30);
+    expect(points[points.length - 1]).toBe(track[track.length - 1]);
+    expect(maxDeviation(track, points)).toBeLessThanOrEqual(10);
+
+    const bounded = new StreamingSimplifier({ toleranceMeters: 1, maxPoints: 8 });
+    track.forEach(point => bounded.add(point));
+    expect(bounded.getPoints().length).toBeLessThanOrEqual(9);
+    expect(bounded.getTolerance()).toBeGreaterThan(1);
+  });
+});
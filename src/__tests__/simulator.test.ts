@@ -0,0 +1,113 @@
+import {
+  startLocationTracking,
+  stopLocationTracking,
+  addLocationUpdateListener,
+  addTrackingStatusListener,
+  addPermissionChangeListener,
+  getCurrentLocation,
+  setTrackingBackend,
+  resetTrackingBackend,
+  TrackingSimulator,
+  TrackingError,
+} from '../index';
+import type { LocationData, TrackingStatus } from '../types';
+
+const config = {
+  intervalMs: 1000,
+  distanceFilter: 10,
+  accuracy: 'high' as const,
+  backgroundMode: false,
+};
+
+// Points roughly 50m apart heading north from Hoan Kiem Lake
+const route = [
+  { latitude: 21.0285, longitude: 105.8542 },
+  { latitude: 21.02895, longitude: 105.8542 },
+  { latitude: 21.02896, longitude: 105.8542 }, // ~1m, below distance filter
+  { latitude: 21.0294, longitude: 105.8542 },
+];
+
+describe('TrackingSimulator backend', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    resetTrackingBackend();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('should emit scripted locations honouring interval and distance filter', async () => {
+    setTrackingBackend(new TrackingSimulator({ route }));
+
+    const locations: LocationData[] = [];
+    const statuses: TrackingStatus[] = [];
+    const locationSub = addLocationUpdateListener(location => locations.push(location));
+    const statusSub = addTrackingStatusListener(status => statuses.push(status));
+
+    await startLocationTracking(config);
+    expect(statuses[0]?.isTracking).toBe(true);
+
+    jest.advanceTimersByTime(999);
+    expect(locations).toHaveLength(0);
+
+    jest.advanceTimersByTime(4000);
+    expect(locations).toHaveLength(3);
+    expect(locations[1]?.bearing).toBeCloseTo(0, 0);
+    expect(locations[1]?.speed).toBeGreaterThan(0);
+
+    await stopLocationTracking();
+    expect(statuses[statuses.length - 1]?.isTracking).toBe(false);
+
+    locationSub.remove();
+    statusSub.remove();
+  });
+
+  test('should restart with a new configuration when started twice', async () => {
+    const simulator = new TrackingSimulator({ route });
+    setTrackingBackend(simulator);
+    const isTrackingActive = jest.spyOn(simulator, 'isTrackingActive');
+
+    await startLocationTracking(config);
+    await expect(startLocationTracking({ ...config, intervalMs: 2000 })).resolves.toBe(true);
+    expect(isTrackingActive).not.toHaveBeenCalled();
+    await stopLocationTracking();
+  });
+
+  test('should map a native ALREADY_TRACKING rejection', async () => {
+    const simulator = new TrackingSimulator({ route });
+    setTrackingBackend(simulator);
+    jest.spyOn(simulator, 'startTracking').mockRejectedValue(
+      Object.assign(new Error('Tracking is already active'), { code: 'ALREADY_TRACKING' })
+    );
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(startLocationTracking(config)).rejects.toMatchObject({
+      name: 'TrackingStateError',
+      code: 'ALREADY_TRACKING',
+    });
+  });
+
+  test('should model permission states', async () => {
+    const simulator = new TrackingSimulator({
+      route,
+      permission: 'not_granted',
+      grantOnRequest: false,
+    });
+    setTrackingBackend(simulator);
+
+    const permissionEvents: unknown[] = [];
+    addPermissionChangeListener(event => permissionEvents.push(event));
+
+    const error = await startLocationTracking(config).catch(e => e);
+    expect(error).toBeInstanceOf(TrackingError);
+    expect(error.code).toBe('PERMISSION_DENIED');
+    expect(permissionEvents).toEqual([{ granted: false, type: 'location' }]);
+
+    simulator.setPermissionStatus('granted');
+    const location = await getCurrentLocation();
+    expect(location.latitude).toBe(21.0285);
+  });
+});
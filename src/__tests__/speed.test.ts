@@ -0,0 +1,122 @@
+import { checkSpeedViolation, SpeedViolationMonitor } from '../speed';
+import { processRouteData } from '../route';
+import { TrackingSimulator } from '../simulator';
+import type { LocationData, SpeedViolationEvent } from '../types';
+
+const route = processRouteData({
+  links: [
+    { id: 1, direction: 0, startLat: 21.03, startLon: 105.85, endLat: 21.03, endLon: 105.86 },
+    { id: 2, direction: 0, startLat: 21.03, startLon: 105.86, endLat: 21.04, endLon: 105.86 },
+  ],
+  alerts: [{ type: 1, speedLimit: 50 }, { type: 4 }],
+  offset: [[0, 0], [1, 0]],
+});
+
+const t0 = 1700000000000;
+
+// Driving east along link 1 at the given speed in km/h
+function fix(second: number, speedKmh: number): LocationData {
+  return {
+    latitude: 21.03,
+    longitude: 105.85 + second * 0.0001,
+    altitude: 0,
+    accuracy: 5,
+    speed: speedKmh / 3.6,
+    bearing: 90,
+    timestamp: t0 + second * 1000,
+  };
+}
+
+describe('checkSpeedViolation', () => {
+  test('should apply the tolerance to the link speed limit', () => {
+    const within = checkSpeedViolation(fix(1, 54), route);
+    expect(within.isViolation).toBe(false);
+    expect(within.speedLimit).toBe(50);
+    expect(within.excess).toBeCloseTo(4, 6);
+
+    const over = checkSpeedViolation(fix(1, 60), route);
+    expect(over.isViolation).toBe(true);
+    expect(over.currentSpeed).toBeCloseTo(60, 6);
+    expect(over.alertInfo).toEqual({ type: 1, speedLimit: 50 });
+
+    expect(checkSpeedViolation(fix(1, 54), route, { toleranceKmh: 0 }).isViolation).toBe(true);
+  });
+
+  test('should report no limit off the route or on links without one', () => {
+    const offRoute = checkSpeedViolation({ latitude: 21.1, longitude: 105.9, speed: 30 }, route, { maxDistance: 50 });
+    expect(offRoute).toEqual({ isViolation: false, currentSpeed: 108, excess: 0 });
+
+    const noLimit = checkSpeedViolation({ latitude: 21.035, longitude: 105.86, speed: 30 }, route);
+    expect(noLimit.speedLimit).toBeUndefined();
+  });
+});
+
+describe('SpeedViolationMonitor', () => {
+  test('should require the minimum duration before a violation starts', () => {
+    const monitor = new SpeedViolationMonitor({ route, minDurationMs: 3000 });
+    const events: SpeedViolationEvent[] = [];
+    monitor.addListener(event => events.push(event));
+
+    // Short burst over the limit is ignored
+    [60, 60, 45].forEach((speed, second) => monitor.processLocation(fix(second, speed)));
+    expect(events).toHaveLength(0);
+
+    [62, 64, 66, 70].forEach((speed, i) => monitor.processLocation(fix(10 + i, speed)));
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'violationStarted', startTime: t0 + 10000 });
+    expect(events[0]!.maxExcess).toBeCloseTo(20, 6);
+    expect(monitor.isViolating()).toBe(true);
+  });
+
+  test('should apply exit hysteresis', () => {
+    const monitor = new SpeedViolationMonitor({ route, minDurationMs: 0, exitHysteresisKmh: 3 });
+    const events: SpeedViolationEvent[] = [];
+    monitor.addListener(event => events.push(event));
+
+    monitor.processLocation(fix(0, 60));
+    // Hovering just under the 55 km/h threshold keeps the episode open
+    monitor.processLocation(fix(1, 54));
+    monitor.processLocation(fix(2, 56));
+    expect(events.map(event => event.type)).toEqual(['violationStarted']);
+
+    monitor.processLocation(fix(3, 51));
+    expect(events.map(event => event.type)).toEqual(['violationStarted', 'violationEnded']);
+    expect(events[1]).toMatchObject({ startTime: t0, endTime: t0 + 3000 });
+    expect(monitor.isViolating()).toBe(false);
+  });
+
+  test('should only end on a lasting loss of the speed limit', () => {
+    const monitor = new SpeedViolationMonitor({ route, minDurationMs: 0, noLimitEndMs: 2000 });
+    const events: SpeedViolationEvent[] = [];
+    monitor.addListener(event => events.push(event));
+    const offRoute = (second: number): LocationData => ({ ...fix(second, 70), latitude: 21.1 });
+
+    monitor.processLocation(fix(0, 70));
+    // One stray fix off the route keeps the episode open
+    monitor.processLocation(offRoute(1));
+    monitor.processLocation(fix(2, 70));
+    monitor.processLocation(offRoute(3));
+    monitor.processLocation(offRoute(4));
+    expect(events.map(event => event.type)).toEqual(['violationStarted']);
+    expect(monitor.isViolating()).toBe(true);
+
+    monitor.processLocation(offRoute(5));
+    expect(events.map(event => event.type)).toEqual(['violationStarted', 'violationEnded']);
+    expect(events[1]).toMatchObject({ startTime: t0, endTime: t0 + 5000 });
+  });
+
+  test('should consume location updates from an event source', () => {
+    const simulator = new TrackingSimulator();
+    const monitor = new SpeedViolationMonitor({ route, minDurationMs: 1000 });
+    const events: SpeedViolationEvent[] = [];
+    monitor.addListener(event => events.push(event));
+    monitor.start(simulator);
+
+    simulator.emit('onLocationUpdate', fix(0, 70));
+    simulator.emit('onLocationUpdate', fix(1, 70));
+    monitor.stop();
+    simulator.emit('onLocationUpdate', fix(2, 30));
+
+    expect(events.map(event => event.type)).toEqual(['violationStarted']);
+  });
+});
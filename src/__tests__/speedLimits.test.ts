@@ -0,0 +1,128 @@
+import {
+  decodeSpeedLimits,
+  getSpeedLimit,
+  getSpeedLimitTierLayout,
+  setSpeedLimitTierLayout,
+} from '../speedLimits';
+import type { SpeedLimitTierLayout } from '../speedLimits';
+import { processRouteData } from '../route';
+import { checkSpeedViolation } from '../speed';
+import { InvalidConfigError, RouteDataError } from '../errors';
+import type { RouteLink } from '../types';
+
+// Test fixture only: [vehicleClassCode, km/h, startMinute?, endMinute?]
+const layout: SpeedLimitTierLayout = {
+  vehicleClassColumn: 0,
+  speedLimitColumn: 1,
+  timeWindowColumns: [2, 3],
+  vehicleClassCodes: { 0: 'all', 1: 'car', 2: 'truck', 3: 'motorbike' },
+};
+
+// Urban arterial: 60 for everyone, trucks 50, trucks 40 during the morning peak (06:00-09:00),
+// motorbikes 40 at night (22:00-05:00, wrapping midnight)
+const link: RouteLink = {
+  id: 7,
+  direction: 0,
+  startLat: 21.03,
+  startLon: 105.85,
+  endLat: 21.03,
+  endLon: 105.86,
+  distance: 1038,
+  speedLimits: [[0, 60], [2, 50], [2, 40, 360, 540], [3, 40, 1320, 300]],
+};
+
+function at(hours: number, minutes: number = 0): Date {
+  return new Date(2024, 4, 15, hours, minutes);
+}
+
+beforeEach(() => {
+  setSpeedLimitTierLayout(layout);
+});
+
+afterEach(() => {
+  setSpeedLimitTierLayout(null);
+});
+
+describe('speed limit tier layout', () => {
+  test('should ignore tiers until a layout is registered', () => {
+    setSpeedLimitTierLayout(null);
+    const route = processRouteData({ links: [{ ...link, speedLimits: [[9, 30], [0, 60]] }] });
+
+    expect(getSpeedLimitTierLayout()).toBeNull();
+    expect(route.warnings).toEqual([]);
+    expect(getSpeedLimit(route.links[0]!, 'car', at(12))).toBeUndefined();
+    expect(() => decodeSpeedLimits(link.speedLimits)).toThrow(InvalidConfigError);
+  });
+
+  test('should decode with the layout in effect', () => {
+    const swapped: SpeedLimitTierLayout = { vehicleClassColumn: 1, speedLimitColumn: 0, vehicleClassCodes: { 0: 'all', 5: 'truck' } };
+    const reversed: RouteLink = { ...link, speedLimits: [[60, 0], [45, 5]] };
+
+    expect(decodeSpeedLimits(reversed.speedLimits, swapped)).toEqual([
+      { vehicleClass: 'all', speedLimit: 60 },
+      { vehicleClass: 'truck', speedLimit: 45 },
+    ]);
+    expect(getSpeedLimit(reversed, 'truck', at(12))).toBeUndefined();
+    setSpeedLimitTierLayout(swapped);
+    expect(getSpeedLimit(reversed, 'truck', at(12))).toBe(45);
+  });
+});
+
+describe('decodeSpeedLimits', () => {
+  test('should map tiers to typed rules', () => {
+    expect(decodeSpeedLimits(link.speedLimits)).toEqual([
+      { vehicleClass: 'all', speedLimit: 60 },
+      { vehicleClass: 'truck', speedLimit: 50 },
+      { vehicleClass: 'truck', speedLimit: 40, timeWindow: { startMinute: 360, endMinute: 540 } },
+      { vehicleClass: 'motorbike', speedLimit: 40, timeWindow: { startMinute: 1320, endMinute: 300 } },
+    ]);
+  });
+
+  test('should reject malformed tiers', () => {
+    expect(() => decodeSpeedLimits([[9, 50], [1, 0], [1, 50, 60]])).toThrow(RouteDataError);
+  });
+
+  test('should skip unknown tiers of route links with a warning', () => {
+    const route = processRouteData({ links: [{ ...link, speedLimits: [[1, 50, 60, 2000], [9, 30], [1, 70]] }] });
+
+    expect(route.warnings).toEqual([
+      'links[0].speedLimits[0] time window must be minutes between 0 and 1440 (tier ignored)',
+      'links[0].speedLimits[1][0] must be a vehicle class code (0, 1, 2, 3) (tier ignored)',
+    ]);
+    expect(route.links[0]!.speedLimits).toHaveLength(3);
+    expect(getSpeedLimit(route.links[0]!, 'car', at(12))).toBe(70);
+    expect(getSpeedLimit({ ...link, speedLimits: [[9, 30]] }, 'car', at(12))).toBeUndefined();
+  });
+});
+
+describe('getSpeedLimit', () => {
+  test('should resolve limits by vehicle class', () => {
+    expect(getSpeedLimit(link, 'car', at(12))).toBe(60);
+    expect(getSpeedLimit(link, 'truck', at(12))).toBe(50);
+    expect(getSpeedLimit(link, 'motorbike', at(12))).toBe(60);
+  });
+
+  test('should apply time windows including ones wrapping midnight', () => {
+    expect(getSpeedLimit(link, 'truck', at(7, 30))).toBe(40);
+    expect(getSpeedLimit(link, 'truck', at(9))).toBe(50);
+    expect(getSpeedLimit(link, 'motorbike', at(23))).toBe(40);
+    expect(getSpeedLimit(link, 'motorbike', at(4, 59))).toBe(40);
+    expect(getSpeedLimit(link, 'motorbike', at(5))).toBe(60);
+    expect(getSpeedLimit(link, 'car', at(23).getTime())).toBe(60);
+  });
+
+  test('should return undefined when no tier applies', () => {
+    expect(getSpeedLimit({ ...link, speedLimits: [[2, 50]] }, 'car')).toBeUndefined();
+  });
+
+  test('should drive checkSpeedViolation for the configured vehicle class', () => {
+    const route = processRouteData({ links: [link] });
+    const location = { latitude: 21.03, longitude: 105.855, speed: 55 / 3.6, timestamp: at(12).getTime() };
+
+    expect(checkSpeedViolation(location, route).isViolation).toBe(false);
+    const truck = checkSpeedViolation(location, route, { vehicleClass: 'truck', toleranceKmh: 0 });
+    expect(truck.isViolation).toBe(true);
+    expect(truck.speedLimit).toBe(50);
+    expect(truck.alertInfo).toBeUndefined();
+  });
+});
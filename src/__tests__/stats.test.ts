@@ -0,0 +1,119 @@
+import { SessionStatsAccumulator } from '../stats';
+import { TrackingSession } from '../session';
+import { MemoryStorageAdapter } from '../storage';
+import { LocationUtils } from '../utils';
+import type { RecordedLocation } from '../types';
+
+const t0 = 1700000000000;
+const latitude = 21.0285;
+const longitude = 105.8542;
+// Latitude step of 100m
+const STEP = 100 / LocationUtils.calculateDistance(latitude, longitude, latitude + 1, longitude);
+
+function fix(index: number, seconds: number, extra: Partial<RecordedLocation> = {}): RecordedLocation {
+  return { latitude: latitude + index * STEP, longitude, timestamp: t0 + seconds * 1000, ...extra };
+}
+
+describe('Session statistics', () => {
+  test('should separate moving time from stops', () => {
+    const stats = new SessionStatsAccumulator();
+    // 1km at 5 m/s, ten minutes parked, 500m at 10 m/s
+    for (let i = 0; i <= 10; i++) {
+      stats.update(fix(i, i * 20));
+    }
+    for (let i = 1; i <= 10; i++) {
+      stats.update(fix(10, 200 + i * 60, { speed: 0.1 }));
+    }
+    for (let i = 1; i <= 5; i++) {
+      stats.update(fix(10 + i, 800 + i * 10));
+    }
+
+    const result = stats.getStats();
+    expect(result.locationCount).toBe(26);
+    expect(result.distance).toBeCloseTo(1500, 6);
+    expect(result.elapsedTime).toBe(850000);
+    expect(result.movingTime).toBe(250000);
+    expect(result.movingAverageSpeed).toBeCloseTo(6, 6);
+    expect(result.maxSpeed).toBeCloseTo(10, 6);
+  });
+
+  test('should use reported speed for max speed', () => {
+    const stats = new SessionStatsAccumulator();
+    stats.update(fix(0, 0, { speed: 12.5 }));
+    stats.update(fix(1, 20, { speed: 4 }));
+
+    expect(stats.getStats().maxSpeed).toBe(12.5);
+  });
+
+  test('should ignore altitude noise below the threshold', () => {
+    const stats = new SessionStatsAccumulator({ elevationThreshold: 3 });
+    const altitudes = [10, 11, 9, 11.5, 10, 14, 18, 17, 19, 12, 13, undefined, 8];
+    altitudes.forEach((altitude, i) => stats.update(fix(i, i * 10, { altitude })));
+
+    const { elevationGain, elevationLoss } = stats.getStats();
+    // 10 -> 14 -> 18 counted, 18 -> 19 too small, 18 -> 12 -> 8 counted
+    expect(elevationGain).toBe(8);
+    expect(elevationLoss).toBe(10);
+  });
+
+  test('should interpolate split boundaries and pace', () => {
+    const stats = new SessionStatsAccumulator();
+    // First 1.5km at 5 m/s, then 1km at 4 m/s with a 100s pause at 2km
+    for (let i = 0; i <= 15; i++) {
+      stats.update(fix(i, i * 20));
+    }
+    for (let i = 16; i <= 20; i++) {
+      stats.update(fix(i, 300 + (i - 15) * 25));
+    }
+    stats.update(fix(20, 525 + 100, { speed: 0 }));
+    for (let i = 21; i <= 25; i++) {
+      stats.update(fix(i, 625 + (i - 20) * 25));
+    }
+
+    const splits = stats.getStats().splits;
+    expect(splits).toHaveLength(2);
+    expect(splits[0]).toMatchObject({ index: 1, distance: 1000, endTime: t0 + 200000 });
+    expect(splits[0]!.elapsedTime).toBeCloseTo(200000, 3);
+    expect(splits[0]!.pace).toBeCloseTo(200, 6);
+    expect(splits[0]!.averageSpeed).toBeCloseTo(5, 6);
+
+    // 500m at 5 m/s + 500m at 4 m/s + 100s stopped
+    expect(splits[1]!.endTime).toBe(t0 + 625000);
+    expect(splits[1]!.elapsedTime).toBeCloseTo(325000 + 100000, 3);
+    expect(splits[1]!.movingTime).toBeCloseTo(225000, 3);
+    expect(splits[1]!.pace).toBeCloseTo(225, 6);
+  });
+
+  test('should support custom split distances across long segments', () => {
+    const stats = new SessionStatsAccumulator({ splitDistance: 250 });
+    stats.update(fix(0, 0));
+    stats.update(fix(6, 120));
+
+    expect(stats.getStats().splits.map(split => split.endTime)).toEqual([
+      t0 + 50000,
+      t0 + 100000,
+    ]);
+  });
+
+  test('TrackingSession should expose stats and rebuild them on restore', async () => {
+    const storage = new MemoryStorageAdapter();
+    const session = new TrackingSession({ id: 'stats', storage, checkpointEvery: 5, stats: { splitDistance: 500 } });
+    session.start();
+    for (let i = 0; i <= 12; i++) {
+      session.addLocation(latitude + i * STEP, longitude, t0 + i * 20000);
+    }
+    await session.checkpoint();
+
+    const stats = session.getStats();
+    expect(stats.locationCount).toBe(13);
+    expect(stats.movingTime).toBe(240000);
+    expect(stats.splits).toHaveLength(2);
+
+    const restored = await TrackingSession.restore('stats', { storage, stats: { splitDistance: 500 } });
+    // duration and averageSpeed depend on the wall clock
+    expect({ ...restored!.getStats(), duration: 0, averageSpeed: 0 }).toEqual({ ...stats, duration: 0, averageSpeed: 0 });
+
+    session.clear();
+    expect(session.getStats()).toMatchObject({ distance: 0, movingTime: 0, splits: [] });
+  });
+});
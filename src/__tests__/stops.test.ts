@@ -0,0 +1,64 @@
+import { TrackingSession } from '../session';
+import type { LocationData, Stop } from '../types';
+
+const t0 = 1700000000000;
+
+function fix(latitude: number, seconds: number, speed: number): LocationData {
+  return {
+    latitude,
+    longitude: 105.8542,
+    altitude: 0,
+    accuracy: 5,
+    speed,
+    bearing: 0,
+    timestamp: t0 + seconds * 1000,
+  };
+}
+
+describe('Stop detection', () => {
+  test('should report stops with centroid, arrival and departure', () => {
+    const started: Stop[] = [];
+    const ended: Stop[] = [];
+    const session = new TrackingSession({
+      stopDetection: {
+        radiusMeters: 30,
+        minDurationMs: 60000,
+        speedThreshold: 1,
+        onStopStarted: stop => started.push(stop),
+        onStopEnded: stop => ended.push(stop),
+      },
+    });
+    session.start();
+
+    // Driving
+    session.addLocation(fix(21.0200, 0, 10));
+    session.addLocation(fix(21.0210, 10, 10));
+    // Parked for three minutes with GPS jitter
+    for (let i = 0; i <= 18; i++) {
+      session.addLocation(fix(21.0220 + (i % 2) * 0.00005, 20 + i * 10, i % 5 === 2 ? 1.5 : 0.2));
+    }
+    expect(started).toHaveLength(1);
+    expect(session.getCurrentStop()).not.toBeNull();
+
+    // Driving away
+    session.addLocation(fix(21.0240, 220, 10));
+
+    expect(ended).toHaveLength(1);
+    const stop = session.getStops()[0]!;
+    expect(stop.arrivalTime).toBe(t0 + 20000);
+    expect(stop.departureTime).toBe(t0 + 200000);
+    expect(stop.duration).toBe(180000);
+    expect(stop.latitude).toBeCloseTo(21.02202, 4);
+    expect(session.getCurrentStop()).toBeNull();
+  });
+
+  test('should ignore short pauses', () => {
+    const session = new TrackingSession({ stopDetection: { minDurationMs: 120000 } });
+    session.start();
+    session.addLocation(fix(21.0200, 0, 0));
+    session.addLocation(fix(21.0200, 30, 0));
+    session.addLocation(fix(21.0300, 60, 15));
+
+    expect(session.getStops()).toHaveLength(0);
+  });
+});
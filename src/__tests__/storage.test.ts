@@ -0,0 +1,116 @@
+import { TrackingSession } from '../session';
+import { MemoryStorageAdapter, AsyncStorageAdapter } from '../storage';
+import type { AsyncStorageLike } from '../storage';
+
+function addPoints(session: TrackingSession, count: number, offset: number = 0): void {
+  for (let i = offset; i < offset + count; i++) {
+    session.addLocation(21.0285 + i * 0.0001, 105.8542, 1700000000000 + i * 1000);
+  }
+}
+
+describe('Persistent TrackingSession', () => {
+  test('should checkpoint incrementally and restore stats', async () => {
+    const storage = new MemoryStorageAdapter();
+    const session = new TrackingSession({ id: 'trip-1', storage, checkpointEvery: 5 });
+    session.start();
+    addPoints(session, 12);
+
+    // Two automatic checkpoints (10 points), two pending
+    await session.checkpoint();
+    const restored = await TrackingSession.restore('trip-1', { storage });
+
+    expect(restored).not.toBeNull();
+    expect(restored!.getHistory()).toEqual(session.getHistory());
+    expect(restored!.getStats().distance).toBeCloseTo(session.getStats().distance, 6);
+
+    // Continues where it left off
+    addPoints(restored!, 3, 12);
+    expect(restored!.getStats().locationCount).toBe(15);
+  });
+
+  test('should split history across chunks', async () => {
+    const storage = new MemoryStorageAdapter();
+    const session = new TrackingSession({ id: 'long', storage, checkpointEvery: 50 });
+    session.start();
+    addPoints(session, 250);
+    await session.checkpoint();
+
+    expect(storage.keys().filter(key => key.includes(':chunk:'))).toHaveLength(3);
+    const restored = await TrackingSession.restore('long', { storage });
+    expect(restored!.getStats().locationCount).toBe(250);
+  });
+
+  test('should return null for unknown sessions and after clear', async () => {
+    const storage = new MemoryStorageAdapter();
+    expect(await TrackingSession.restore('missing', { storage })).toBeNull();
+
+    const session = new TrackingSession({ id: 'cleared', storage, checkpointEvery: 1 });
+    session.start();
+    addPoints(session, 3);
+    session.clear();
+    await session.checkpoint();
+
+    expect(await TrackingSession.restore('cleared', { storage })).toBeNull();
+    expect(storage.keys()).toHaveLength(0);
+  });
+
+  test('should ignore chunk data written after the last checkpoint', async () => {
+    const storage = new MemoryStorageAdapter();
+    const session = new TrackingSession({ id: 'crashed', storage, checkpointEvery: 5 });
+    session.start();
+    addPoints(session, 5);
+    await session.checkpoint();
+    const committed = session.getStats();
+
+    // Chunk rewritten with three more points, then the app died before the metadata update
+    const chunk = JSON.parse((await storage.getItem('tracking_session:crashed:chunk:0'))!);
+    addPoints(session, 3, 5);
+    await storage.setItem('tracking_session:crashed:chunk:0', JSON.stringify([...chunk, ...session.getLocations().slice(5)]));
+
+    const restored = await TrackingSession.restore('crashed', { storage });
+    expect(restored!.getLocations()).toHaveLength(5);
+    expect(restored!.getStats().distance).toBeCloseTo(committed.distance, 6);
+    expect(restored!.getLocations()[4]!.latitude).toBeCloseTo(21.0285 + 4 * 0.0001, 9);
+  });
+
+  test('should remove stale chunks when a new session reuses the id', async () => {
+    const storage = new MemoryStorageAdapter();
+    const previous = new TrackingSession({ id: 'reused', storage, checkpointEvery: 50 });
+    previous.start();
+    addPoints(previous, 250);
+    await previous.checkpoint();
+
+    const session = new TrackingSession({ id: 'reused', storage, checkpointEvery: 1 });
+    session.start();
+    addPoints(session, 3);
+    await session.checkpoint();
+    expect(storage.keys().filter(key => key.includes(':chunk:'))).toEqual(['tracking_session:reused:chunk:0']);
+
+    const other = new TrackingSession({ id: 'reused', storage });
+    other.clear();
+    await other.checkpoint();
+    expect(storage.keys()).toHaveLength(0);
+  });
+
+  test('should prefix keys in AsyncStorage-style stores', async () => {
+    const backing = new Map<string, string>();
+    const asyncStorage: AsyncStorageLike = {
+      getItem: async key => backing.get(key) ?? null,
+      setItem: async (key, value) => {
+        backing.set(key, value);
+      },
+      removeItem: async key => {
+        backing.delete(key);
+      },
+    };
+    const storage = new AsyncStorageAdapter(asyncStorage);
+
+    const session = new TrackingSession({ id: 'async', storage, checkpointEvery: 2 });
+    session.start();
+    addPoints(session, 2);
+    await session.checkpoint();
+
+    expect(backing.has('@vietmap_tracking:tracking_session:async:meta')).toBe(true);
+    expect((await TrackingSession.restore('async', { storage }))!.getStats().locationCount).toBe(2);
+  });
+});
@@ -0,0 +1,106 @@
+import { Platform } from 'react-native';
+import {
+  startLocationTracking,
+  stopLocationTracking,
+  getTrackingStatus,
+  updateTrackingConfig,
+  getActiveTrackingConfig,
+  setTrackingBackend,
+  resetTrackingBackend,
+  TrackingSimulator,
+  InvalidConfigError,
+  TrackingStateError,
+} from '../index';
+import type { LocationTrackingConfig } from '../types';
+
+const config = {
+  intervalMs: 10000,
+  distanceFilter: 10,
+  accuracy: 'high' as const,
+  backgroundMode: false,
+};
+
+describe('updateTrackingConfig', () => {
+  let simulator: TrackingSimulator;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    simulator = new TrackingSimulator({ route: [{ latitude: 21.0285, longitude: 105.8542 }] });
+    setTrackingBackend(simulator);
+    await startLocationTracking(config);
+  });
+
+  afterEach(async () => {
+    await stopLocationTracking();
+    resetTrackingBackend();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('should merge a partial update and send only changed fields', async () => {
+    const update = jest.spyOn(simulator, 'updateTrackingConfig');
+
+    const result = await updateTrackingConfig({ intervalMs: 2000, distanceFilter: 10, accuracy: undefined });
+    expect(update).toHaveBeenCalledWith({ intervalMs: 2000 });
+    expect(result).toEqual({
+      applied: true,
+      config: { ...config, intervalMs: 2000 },
+      changes: { intervalMs: 2000 },
+      warnings: ['Very frequent updates may impact battery life'],
+    });
+
+    expect(getActiveTrackingConfig()).toEqual({ ...config, intervalMs: 2000 });
+    expect((await getTrackingStatus()).config).toEqual({ ...config, intervalMs: 2000 });
+  });
+
+  test('should skip the native call when nothing changes', async () => {
+    const update = jest.spyOn(simulator, 'updateTrackingConfig');
+
+    const result = await updateTrackingConfig({ distanceFilter: 10 });
+    expect(update).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ applied: true, changes: {}, config });
+  });
+
+  test('should reject invalid merged configuration', async () => {
+    const update = jest.spyOn(simulator, 'updateTrackingConfig');
+
+    await expect(updateTrackingConfig({ intervalMs: 10 })).rejects.toBeInstanceOf(InvalidConfigError);
+    await expect(updateTrackingConfig({ accuracy: 'best' as LocationTrackingConfig['accuracy'] })).rejects.toThrow(/accuracy must be one of/);
+    expect(update).not.toHaveBeenCalled();
+    expect(getActiveTrackingConfig()).toEqual(config);
+  });
+
+  test('should keep the active configuration when native declines', async () => {
+    jest.spyOn(simulator, 'updateTrackingConfig').mockResolvedValue(false);
+
+    const result = await updateTrackingConfig({ distanceFilter: 50 });
+    expect(result).toMatchObject({ applied: false, config, changes: { distanceFilter: 50 } });
+    expect(getActiveTrackingConfig()).toEqual(config);
+  });
+
+  test('should forget the configuration once tracking stops', async () => {
+    await stopLocationTracking();
+    expect(getActiveTrackingConfig()).toBeNull();
+    expect((await getTrackingStatus()).config).toBeUndefined();
+
+    // Without a known configuration native would be overwritten with guessed defaults
+    const update = jest.spyOn(simulator, 'updateTrackingConfig');
+    await expect(updateTrackingConfig({ distanceFilter: 20 })).rejects.toBeInstanceOf(TrackingStateError);
+    await expect(updateTrackingConfig({ distanceFilter: 20 })).rejects.toMatchObject({ code: 'NOT_TRACKING' });
+    expect(update).not.toHaveBeenCalled();
+    expect(getActiveTrackingConfig()).toBeNull();
+  });
+
+  test('should send the background flag under the key each platform reads', async () => {
+    const update = jest.spyOn(simulator, 'updateTrackingConfig');
+    const os = jest.replaceProperty(Platform, 'OS', 'android');
+
+    await updateTrackingConfig({ backgroundMode: true });
+    expect(update).toHaveBeenLastCalledWith({ backgroundMode: true });
+
+    os.replaceValue('ios');
+    const result = await updateTrackingConfig({ backgroundMode: false, intervalMs: 20000 });
+    expect(update).toHaveBeenLastCalledWith({ enableBackgroundMode: false, intervalMs: 20000 });
+    expect(result.changes).toEqual({ backgroundMode: false, intervalMs: 20000 });
+  });
+});
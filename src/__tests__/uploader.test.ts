@@ -0,0 +1,218 @@
+import { createServer } from 'http';
+import type { IncomingMessage, Server, ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { LocationUploader, HttpTransport } from '../uploader';
+import type { UploadBatch } from '../uploader';
+import { MemoryStorageAdapter } from '../storage';
+import { TrackingError } from '../errors';
+import type { LocationData } from '../types';
+
+function fix(i: number): LocationData {
+  return {
+    latitude: 21.0285 + i * 0.0001,
+    longitude: 105.8542,
+    altitude: 10,
+    accuracy: 5,
+    speed: 10,
+    bearing: 0,
+    timestamp: 1700000000000 + i * 1000,
+  };
+}
+
+// Local stand-in for the tracking backend; responds with the queued status codes, then 200
+function startServer(statuses: number[]): Promise<{ server: Server; url: string; received: UploadBatch[] }> {
+  const received: UploadBatch[] = [];
+  const server = createServer((request: IncomingMessage, response: ServerResponse) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      const status = statuses.shift() ?? 200;
+      if (status === 200) {
+        const { batchId, locations } = JSON.parse(body);
+        received.push({ id: batchId, locations, createdAt: 0, attempts: 0 });
+      }
+      response.writeHead(status);
+      response.end();
+    });
+  });
+
+  return new Promise(resolve => {
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/locations`, received });
+    });
+  });
+}
+
+function wait(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('LocationUploader', () => {
+  let server: Server | null = null;
+
+  afterEach(done => {
+    if (server) {
+      server.close(() => done());
+      server = null;
+    } else {
+      done();
+    }
+  });
+
+  test('should batch by count and POST to the backend', async () => {
+    const stub = await startServer([]);
+    server = stub.server;
+    const uploaded: UploadBatch[] = [];
+    const uploader = new LocationUploader({
+      transport: new HttpTransport({ url: stub.url }),
+      storage: new MemoryStorageAdapter(),
+      batchSize: 3,
+      onUploaded: batch => uploaded.push(batch),
+    });
+
+    for (let i = 0; i < 7; i++) {
+      uploader.add(fix(i));
+    }
+    await uploader.flush();
+
+    expect(stub.received.map(batch => batch.locations.length)).toEqual([3, 3, 1]);
+    expect(stub.received[0]!.locations[0]).toEqual(fix(0));
+    expect(uploaded.map(batch => batch.id)).toEqual(stub.received.map(batch => batch.id));
+    expect(uploader.getQueuedCount()).toBe(0);
+  });
+
+  test('should retry with exponential backoff and report NETWORK_ERROR', async () => {
+    const stub = await startServer([503, 500]);
+    server = stub.server;
+    const errors: TrackingError[] = [];
+    const uploader = new LocationUploader({
+      transport: new HttpTransport({ url: stub.url }),
+      storage: new MemoryStorageAdapter(),
+      batchSize: 2,
+      initialBackoffMs: 20,
+      onError: error => errors.push(error),
+    });
+
+    uploader.add(fix(0));
+    uploader.add(fix(1));
+    await wait(200);
+
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toBeInstanceOf(TrackingError);
+    expect(errors[0]!.code).toBe('NETWORK_ERROR');
+    expect(errors[0]!.message).toContain('503');
+    expect(stub.received).toHaveLength(1);
+    expect(uploader.getQueuedCount()).toBe(0);
+    uploader.stop();
+  });
+
+  test('should persist unsent batches and deliver them after restart', async () => {
+    const storage = new MemoryStorageAdapter();
+    const offline = new LocationUploader({
+      transport: { send: () => Promise.reject(new Error('offline')) },
+      storage,
+      batchSize: 2,
+      initialBackoffMs: 60000,
+    });
+
+    for (let i = 0; i < 5; i++) {
+      offline.add(fix(i));
+    }
+    await offline.flush();
+    expect(offline.getQueuedBatches().map(batch => batch.attempts)).toEqual([1, 0, 0]);
+    offline.stop();
+
+    const stub = await startServer([]);
+    server = stub.server;
+    const online = new LocationUploader({ transport: new HttpTransport({ url: stub.url }), storage });
+    await online.start({ addListener: () => ({ remove: () => {} }) });
+    await online.flush();
+
+    expect(stub.received.flatMap(batch => batch.locations)).toEqual([0, 1, 2, 3, 4].map(fix));
+    online.stop();
+  });
+
+  test('should not queue persisted locations twice when restarted', async () => {
+    const storage = new MemoryStorageAdapter();
+    const source = { addListener: () => ({ remove: () => {} }) };
+    const uploader = new LocationUploader({
+      transport: { send: () => Promise.reject(new Error('offline')) },
+      storage,
+      batchSize: 50,
+    });
+
+    await uploader.start(source);
+    [0, 1, 2].forEach(i => uploader.add(fix(i)));
+    uploader.stop();
+    await uploader.start(source);
+    uploader.stop();
+    expect(uploader.getQueuedCount()).toBe(3);
+    await wait(10);
+
+    // Locations added before the first start() are queued behind the stored ones
+    const restarted = new LocationUploader({ transport: { send: async () => {} }, storage, batchSize: 50 });
+    restarted.add(fix(3));
+    await restarted.start(source);
+    restarted.stop();
+    expect(restarted.getQueuedCount()).toBe(4);
+    expect(restarted.getQueuedBatches()).toEqual([]);
+  });
+
+  test('should discard an unreadable checkpoint and keep persisting', async () => {
+    const logged = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const storage = new MemoryStorageAdapter();
+    await storage.setItem('location_uploader:queue', '{"batches": [garbage');
+    const source = { addListener: () => ({ remove: () => {} }) };
+    const uploader = new LocationUploader({
+      transport: { send: () => Promise.reject(new Error('offline')) },
+      storage,
+      batchSize: 50,
+    });
+
+    await uploader.start(source);
+    [0, 1].forEach(i => uploader.add(fix(i)));
+    uploader.stop();
+    await wait(10);
+
+    expect(logged).toHaveBeenCalledWith('Failed to read location upload queue, discarding it:', expect.any(SyntaxError));
+    expect(JSON.parse((await storage.getItem('location_uploader:queue'))!).pending).toHaveLength(2);
+    logged.mockRestore();
+  });
+
+  test('should log failures of background uploads instead of rejecting', async () => {
+    const logged = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const uploader = new LocationUploader({
+      transport: { send: async () => {} },
+      storage: new MemoryStorageAdapter(),
+      batchSize: 1,
+      onUploaded: () => {
+        throw new Error('listener failed');
+      },
+    });
+
+    uploader.add(fix(0));
+    await wait(20);
+
+    expect(logged).toHaveBeenCalledWith('Failed to upload location batches:', expect.any(Error));
+    logged.mockRestore();
+  });
+
+  test('should send a partial batch once it reaches the maximum age', async () => {
+    const sent: UploadBatch[] = [];
+    const uploader = new LocationUploader({
+      transport: { send: async batch => void sent.push(batch) },
+      storage: new MemoryStorageAdapter(),
+      batchSize: 50,
+      maxBatchAgeMs: 20,
+    });
+
+    uploader.add(fix(0));
+    uploader.add(fix(1));
+    expect(sent).toHaveLength(0);
+    await wait(60);
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]!.locations).toHaveLength(2);
+  });
+});
@@ -0,0 +1,273 @@
+import type { LocationData, LocationTrackingConfig } from './types';
+import { TRACKING_PRESETS } from './constants';
+import { getTrackingEvents } from './backend';
+import type { TrackingEventSource, TrackingSubscription } from './backend';
+import { toTrackingError } from './errors';
+import type { TrackingError } from './errors';
+import { LocationUtils } from './utils';
+import { updateTrackingConfig } from './trackingConfig';
+
+export type TrackingPresetName = keyof typeof TRACKING_PRESETS;
+
+/**
+ * Why the adaptive tracker switched presets
+ */
+export type AdaptiveChangeReason = 'stationary' | 'speed_increased' | 'left_stationary_area';
+
+export interface AdaptiveModeChangeEvent {
+  /** Preset active before the change */
+  previousPreset: TrackingPresetName;
+  /** Preset now active */
+  preset: TrackingPresetName;
+  /** Configuration passed to updateTrackingConfig */
+  config: LocationTrackingConfig;
+  reason: AdaptiveChangeReason;
+  /** Speed of the triggering location in m/s */
+  speed: number;
+  /** Timestamp of the triggering location (ms) */
+  timestamp: number;
+}
+
+export type AdaptiveModeChangeCallback = (event: AdaptiveModeChangeEvent) => void;
+
+/**
+ * Options for AdaptiveTracker
+ */
+export interface AdaptiveTrackerOptions {
+  /** Preset used while moving (default: 'NAVIGATION') */
+  movingPreset?: TrackingPresetName;
+  /** Preset used while stationary (default: 'BATTERY_SAVER') */
+  stationaryPreset?: TrackingPresetName;
+  /** Time the device must stay stationary before switching down in ms (default: 300000) */
+  stationaryAfterMs?: number;
+  /** Speed at or below which the device counts as stationary in m/s (default: 0.5) */
+  stationarySpeed?: number;
+  /** Speed at or above which the device counts as moving again in m/s (default: 2) */
+  movingSpeed?: number;
+  /** Time the speed must stay at or above movingSpeed before switching up in ms (default: 5000) */
+  movingAfterMs?: number;
+  /** Movement allowed while stationary, absorbing GPS drift, in meters (default: 30) */
+  stationaryRadius?: number;
+  /** Applies a preset (default: updateTrackingConfig, sending only the fields that change) */
+  applyConfig?: (config: LocationTrackingConfig) => Promise<boolean>;
+  /** Called when applying a preset fails; the switch is retried on the next location */
+  onError?: (error: TrackingError) => void;
+}
+
+/**
+ * Switches between a moving and a stationary tracking preset based on the location stream
+ */
+export class AdaptiveTracker {
+  private readonly movingPreset: TrackingPresetName;
+  private readonly stationaryPreset: TrackingPresetName;
+  private readonly stationaryAfterMs: number;
+  private readonly stationarySpeed: number;
+  private readonly movingSpeed: number;
+  private readonly movingAfterMs: number;
+  private readonly stationaryRadius: number;
+  private readonly applyConfig: (config: LocationTrackingConfig) => Promise<boolean>;
+  private readonly onError?: (error: TrackingError) => void;
+
+  private preset: TrackingPresetName;
+  private anchor: LocationData | null = null;
+  private stationarySince: number | null = null;
+  private movingSince: number | null = null;
+  private previous: LocationData | null = null;
+  private switching: boolean = false;
+  private listeners = new Set<AdaptiveModeChangeCallback>();
+  private subscription: TrackingSubscription | null = null;
+
+  constructor(options: AdaptiveTrackerOptions = {}) {
+    this.movingPreset = options.movingPreset ?? 'NAVIGATION';
+    this.stationaryPreset = options.stationaryPreset ?? 'BATTERY_SAVER';
+    this.stationaryAfterMs = options.stationaryAfterMs ?? 300000;
+    this.stationarySpeed = options.stationarySpeed ?? 0.5;
+    this.movingSpeed = options.movingSpeed ?? 2;
+    this.movingAfterMs = options.movingAfterMs ?? 5000;
+    this.stationaryRadius = options.stationaryRadius ?? 30;
+    this.applyConfig = options.applyConfig ??
+      (config => updateTrackingConfig(config).then(result => result.applied));
+    this.onError = options.onError;
+    this.preset = this.movingPreset;
+  }
+
+  /**
+   * Subscribe to preset changes
+   * @param callback - Callback function to receive mode changes
+   * @returns Subscription object with remove method
+   */
+  addListener(callback: AdaptiveModeChangeCallback): TrackingSubscription {
+    this.listeners.add(callback);
+    return {
+      remove: () => {
+        this.listeners.delete(callback);
+      }
+    };
+  }
+
+  /**
+   * Start consuming onLocationUpdate events (assumes tracking runs with the moving preset)
+   * @param source - Event source (default: active tracking backend)
+   */
+  start(source: TrackingEventSource = getTrackingEvents()): void {
+    this.stop();
+    this.subscription = source.addListener('onLocationUpdate', location => {
+      this.processLocation(location).catch(error => this.reportError(error));
+    });
+  }
+
+  /**
+   * Stop consuming location events (the active preset is left in place)
+   */
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+
+  /**
+   * Get the preset currently applied
+   */
+  getPreset(): TrackingPresetName {
+    return this.preset;
+  }
+
+  /**
+   * Whether the stationary preset is active
+   */
+  isStationary(): boolean {
+    return this.preset === this.stationaryPreset;
+  }
+
+  /**
+   * Evaluate a location and switch presets when the motion state changed
+   * @param location - New location
+   * @returns Change event if the preset was switched
+   */
+  async processLocation(location: LocationData): Promise<AdaptiveModeChangeEvent | null> {
+    const speed = this.speedOf(location);
+    this.previous = location;
+
+    const distanceFromAnchor = this.anchor
+      ? LocationUtils.calculateDistance(
+        this.anchor.latitude, this.anchor.longitude,
+        location.latitude, location.longitude
+      )
+      : 0;
+
+    if (this.isStationary()) {
+      // A single fast fix is often a GPS spike, so the speed has to hold for movingAfterMs
+      if (speed < this.movingSpeed) {
+        this.movingSince = null;
+      } else if (this.movingSince === null) {
+        this.movingSince = location.timestamp;
+      }
+      if (this.movingSince !== null && location.timestamp - this.movingSince >= this.movingAfterMs) {
+        return this.switchTo(this.movingPreset, 'speed_increased', location, speed);
+      }
+      if (distanceFromAnchor > this.stationaryRadius) {
+        return this.switchTo(this.movingPreset, 'left_stationary_area', location, speed);
+      }
+      return null;
+    }
+
+    const moving = this.stationarySince === null
+      ? speed > this.stationarySpeed || distanceFromAnchor > this.stationaryRadius
+      // While the stationary timer runs, GPS jitter in speed or position alone does not restart it
+      : speed > this.stationarySpeed && distanceFromAnchor > this.stationaryRadius;
+    if (moving) {
+      // Moving: the next stationary period starts from here
+      this.anchor = location;
+      this.stationarySince = null;
+      return null;
+    }
+
+    if (!this.anchor || this.stationarySince === null) {
+      this.anchor = location;
+      this.stationarySince = location.timestamp;
+    }
+
+    if (location.timestamp - this.stationarySince >= this.stationaryAfterMs) {
+      return this.switchTo(this.stationaryPreset, 'stationary', location, speed);
+    }
+    return null;
+  }
+
+  /**
+   * Reset motion state and assume the moving preset is active
+   */
+  reset(): void {
+    this.preset = this.movingPreset;
+    this.anchor = null;
+    this.stationarySince = null;
+    this.movingSince = null;
+    this.previous = null;
+  }
+
+  private async switchTo(
+    preset: TrackingPresetName,
+    reason: AdaptiveChangeReason,
+    location: LocationData,
+    speed: number
+  ): Promise<AdaptiveModeChangeEvent | null> {
+    if (this.switching) {
+      return null;
+    }
+
+    const config: LocationTrackingConfig = { ...TRACKING_PRESETS[preset] };
+    this.switching = true;
+    try {
+      const applied = await this.applyConfig(config);
+      if (!applied) {
+        throw new Error(`updateTrackingConfig rejected the ${preset} preset`);
+      }
+    } catch (error) {
+      this.reportError(error);
+      return null;
+    } finally {
+      this.switching = false;
+    }
+
+    const event: AdaptiveModeChangeEvent = {
+      previousPreset: this.preset,
+      preset,
+      config,
+      reason,
+      speed,
+      timestamp: location.timestamp
+    };
+    this.preset = preset;
+    this.anchor = location;
+    this.stationarySince = null;
+    this.movingSince = null;
+    this.listeners.forEach(listener => listener(event));
+    return event;
+  }
+
+  /**
+   * Pass a failed switch to onError, or log it
+   */
+  private reportError(error: unknown): void {
+    const trackingError = toTrackingError(error, 'INVALID_CONFIG');
+    if (this.onError) {
+      this.onError(trackingError);
+    } else {
+      console.error('Failed to switch tracking preset:', trackingError);
+    }
+  }
+
+  /**
+   * Reported speed, or speed implied by the previous fix when unavailable
+   */
+  private speedOf(location: LocationData): number {
+    if (location.speed >= 0) {
+      return location.speed;
+    }
+    if (!this.previous) {
+      return 0;
+    }
+    return LocationUtils.calculateSpeed(
+      this.previous.latitude, this.previous.longitude, this.previous.timestamp,
+      location.latitude, location.longitude, location.timestamp
+    );
+  }
+}
@@ -0,0 +1,124 @@
+import { NativeEventEmitter, NativeModules, TurboModuleRegistry } from 'react-native';
+import type { Spec } from './NativeRnVietmapTrackingPlugin';
+import { ServiceError } from './errors';
+import type {
+  LocationData,
+  TrackingStatus,
+  LocationErrorEvent,
+  PermissionChangeEvent,
+  RouteUpdateEvent,
+} from './types';
+
+/**
+ * Payload type of each event emitted by a tracking backend
+ */
+export interface TrackingEventMap {
+  onLocationUpdate: LocationData;
+  onTrackingStatusChanged: TrackingStatus;
+  onLocationError: LocationErrorEvent;
+  onPermissionChanged: PermissionChangeEvent;
+  onRouteUpdate: RouteUpdateEvent;
+}
+
+export type TrackingEventName = keyof TrackingEventMap;
+
+/**
+ * Subscription returned by event listeners
+ */
+export interface TrackingSubscription {
+  remove(): void;
+}
+
+/**
+ * Source of tracking events (native event emitter or an alternative backend)
+ */
+export interface TrackingEventSource {
+  addListener<K extends TrackingEventName>(
+    eventName: K,
+    listener: (event: TrackingEventMap[K]) => void
+  ): TrackingSubscription;
+}
+
+let customModule: Spec | null = null;
+let customEvents: TrackingEventSource | null = null;
+let nativeEvents: TrackingEventSource | null = null;
+const backendChangeListeners = new Set<() => void>();
+
+/**
+ * Register an alternative backend used instead of the native module
+ * (e.g. TrackingSimulator under Jest or in a web preview)
+ * @param module - Implementation of the native Spec
+ * @param events - Event source for the backend (defaults to the module itself if it emits events)
+ */
+export function setTrackingBackend(module: Spec, events?: TrackingEventSource): void {
+  customModule = module;
+  customEvents = events ?? (isEventSource(module) ? module : null);
+  backendChangeListeners.forEach(listener => listener());
+}
+
+/**
+ * Restore the native module as the active backend
+ */
+export function resetTrackingBackend(): void {
+  customModule = null;
+  customEvents = null;
+  backendChangeListeners.forEach(listener => listener());
+}
+
+/**
+ * Get notified when setTrackingBackend or resetTrackingBackend swaps the active backend
+ * @param listener - Called after the swap
+ * @returns Subscription object with remove method
+ */
+export function onTrackingBackendChange(listener: () => void): TrackingSubscription {
+  backendChangeListeners.add(listener);
+  return {
+    remove: () => {
+      backendChangeListeners.delete(listener);
+    }
+  };
+}
+
+/**
+ * Get the active tracking module
+ * @returns Registered backend, or the native TurboModule
+ */
+export function getTrackingModule(): Spec {
+  if (customModule) {
+    return customModule;
+  }
+
+  const nativeModule = TurboModuleRegistry.get<Spec>('RnVietmapTrackingPlugin');
+  if (!nativeModule) {
+    throw new ServiceError(
+      'SERVICE_UNAVAILABLE',
+      'RnVietmapTrackingPlugin native module is not available. Register a backend with setTrackingBackend()'
+    );
+  }
+  return nativeModule;
+}
+
+/**
+ * Get the event source of the active backend
+ * @returns Registered event source, or the native event emitter
+ */
+export function getTrackingEvents(): TrackingEventSource {
+  if (customModule) {
+    if (!customEvents) {
+      throw new ServiceError('SERVICE_UNAVAILABLE', 'Registered tracking backend does not emit events');
+    }
+    return customEvents;
+  }
+
+  if (!nativeEvents) {
+    const emitter = new NativeEventEmitter(NativeModules.RnVietmapTrackingPlugin);
+    nativeEvents = {
+      addListener: (eventName, listener) => emitter.addListener(eventName, listener)
+    };
+  }
+  return nativeEvents;
+}
+
+function isEventSource(value: unknown): value is TrackingEventSource {
+  return typeof (value as TrackingEventSource).addListener === 'function';
+}
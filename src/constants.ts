@@ -66,7 +66,51 @@ export const LOCATION_ERROR_CODES = {
   INVALID_CONFIG: 'INVALID_CONFIG',
   SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
   NOT_TRACKING: 'NOT_TRACKING',
-  ALREADY_TRACKING: 'ALREADY_TRACKING'
+  ALREADY_TRACKING: 'ALREADY_TRACKING',
+  INVALID_ROUTE_DATA: 'INVALID_ROUTE_DATA'
+};
+
+/**
+ * Allowed travel direction of a RouteLink.
+ * The route API does not document its direction codes; these are the ones the library interprets,
+ * and processRouteData treats any other code as a two-way road.
+ */
+export const LINK_DIRECTION = {
+  /** Two-way road */
+  BOTH: 0,
+  /** One-way from start to end */
+  FORWARD: 1,
+  /** One-way from end to start */
+  BACKWARD: 2
+} as const;
+
+/**
+ * GGA fix quality indicators
+ */
+export const NMEA_FIX_QUALITY = {
+  INVALID: 0,
+  GPS: 1,
+  DGPS: 2,
+  PPS: 3,
+  RTK_FIXED: 4,
+  RTK_FLOAT: 5,
+  ESTIMATED: 6,
+  MANUAL: 7,
+  SIMULATION: 8
+} as const;
+
+/**
+ * Horizontal accuracy at HDOP 1 for each fix quality, in meters
+ */
+export const NMEA_FIX_QUALITY_ACCURACY: Record<number, number> = {
+  [NMEA_FIX_QUALITY.GPS]: 5,
+  [NMEA_FIX_QUALITY.DGPS]: 1.5,
+  [NMEA_FIX_QUALITY.PPS]: 3,
+  [NMEA_FIX_QUALITY.RTK_FIXED]: 0.05,
+  [NMEA_FIX_QUALITY.RTK_FLOAT]: 0.5,
+  [NMEA_FIX_QUALITY.ESTIMATED]: 50,
+  [NMEA_FIX_QUALITY.MANUAL]: 50,
+  [NMEA_FIX_QUALITY.SIMULATION]: 5
 };
 
 /**
@@ -0,0 +1,189 @@
+import { LOCATION_ERROR_CODES } from './constants';
+
+/**
+ * Error code understood by TrackingError (one of LOCATION_ERROR_CODES)
+ */
+export type LocationErrorCode = keyof typeof LOCATION_ERROR_CODES;
+
+/**
+ * Codes the caller can usually recover from by retrying or asking the user
+ */
+const RECOVERABLE_CODES: LocationErrorCode[] = [
+  'PERMISSION_DENIED',
+  'LOCATION_UNAVAILABLE',
+  'TIMEOUT',
+  'NETWORK_ERROR',
+  'NOT_TRACKING',
+  'ALREADY_TRACKING'
+];
+
+/**
+ * Native rejection codes (Android and iOS) mapped to LOCATION_ERROR_CODES
+ */
+export const NATIVE_ERROR_CODE_MAP: Record<string, LocationErrorCode> = {
+  INVALID_API_KEY: 'INVALID_CONFIG',
+  CONFIGURE_FAILED: 'SERVICE_UNAVAILABLE',
+  ALERT_CONFIG_FAILED: 'SERVICE_UNAVAILABLE',
+  SDK_NOT_INITIALIZED: 'SERVICE_UNAVAILABLE',
+  NOT_INITIALIZED: 'SERVICE_UNAVAILABLE',
+  NO_ACTIVITY: 'SERVICE_UNAVAILABLE',
+  INVALID_ACTIVITY: 'SERVICE_UNAVAILABLE',
+  PERMISSION_REQUEST_FAILED: 'PERMISSION_DENIED',
+  PERMISSION_RESULT_ERROR: 'PERMISSION_DENIED',
+  PERMISSION_CHECK_FAILED: 'PERMISSION_DENIED',
+  LOCATION_ERROR: 'LOCATION_UNAVAILABLE',
+  LOCATION_UNAVAILABLE: 'LOCATION_UNAVAILABLE',
+  STATUS_ERROR: 'SERVICE_UNAVAILABLE',
+  CONFIG_UPDATE_ERROR: 'INVALID_CONFIG',
+  CLEAR_FAILED: 'SERVICE_UNAVAILABLE',
+  NO_ROUTE_DATA: 'SERVICE_UNAVAILABLE'
+};
+
+/**
+ * Base error for all failures surfaced by the tracking plugin
+ */
+export class TrackingError extends Error {
+  /** Error code from LOCATION_ERROR_CODES */
+  readonly code: LocationErrorCode;
+  /** Whether retrying or user action can resolve the error */
+  readonly recoverable: boolean;
+  /** Original error (usually the native rejection) */
+  readonly cause?: unknown;
+
+  constructor(code: LocationErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = 'TrackingError';
+    this.code = code;
+    this.recoverable = RECOVERABLE_CODES.includes(code);
+    this.cause = cause;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/**
+ * Location permission was denied or could not be requested
+ */
+export class PermissionDeniedError extends TrackingError {
+  constructor(message: string = 'Location permission denied', cause?: unknown) {
+    super('PERMISSION_DENIED', message, cause);
+    this.name = 'PermissionDeniedError';
+  }
+}
+
+/**
+ * Tracking configuration or API credentials were rejected
+ */
+export class InvalidConfigError extends TrackingError {
+  constructor(message: string, cause?: unknown) {
+    super('INVALID_CONFIG', message, cause);
+    this.name = 'InvalidConfigError';
+  }
+}
+
+/**
+ * Operation is not allowed in the current tracking state
+ */
+export class TrackingStateError extends TrackingError {
+  constructor(code: 'NOT_TRACKING' | 'ALREADY_TRACKING', message: string, cause?: unknown) {
+    super(code, message, cause);
+    this.name = 'TrackingStateError';
+  }
+}
+
+/**
+ * Native service, location provider or network is unavailable
+ */
+export class ServiceError extends TrackingError {
+  constructor(
+    code: 'SERVICE_UNAVAILABLE' | 'LOCATION_UNAVAILABLE' | 'TIMEOUT' | 'NETWORK_ERROR',
+    message: string,
+    cause?: unknown
+  ) {
+    super(code, message, cause);
+    this.name = 'ServiceError';
+  }
+}
+
+/**
+ * Route or alert data could not be parsed
+ */
+export class RouteDataError extends TrackingError {
+  /** Every problem found, e.g. 'links[3].startLat must be between -90 and 90' */
+  readonly errors: string[];
+
+  constructor(errors: string[], cause?: unknown) {
+    const more = errors.length > 1 ? ` (and ${errors.length - 1} more)` : '';
+    super('INVALID_ROUTE_DATA', `Invalid route data: ${errors[0] ?? 'unknown error'}${more}`, cause);
+    this.name = 'RouteDataError';
+    this.errors = errors;
+  }
+}
+
+/**
+ * Create the most specific TrackingError subclass for a code
+ * @param code - Error code
+ * @param message - Human-readable message
+ * @param cause - Original error
+ * @returns TrackingError instance
+ */
+export function createTrackingError(
+  code: LocationErrorCode,
+  message: string,
+  cause?: unknown
+): TrackingError {
+  switch (code) {
+    case 'PERMISSION_DENIED':
+      return new PermissionDeniedError(message, cause);
+    case 'INVALID_CONFIG':
+      return new InvalidConfigError(message, cause);
+    case 'NOT_TRACKING':
+    case 'ALREADY_TRACKING':
+      return new TrackingStateError(code, message, cause);
+    case 'INVALID_ROUTE_DATA':
+      return new RouteDataError([message], cause);
+    default:
+      return new ServiceError(code, message, cause);
+  }
+}
+
+/**
+ * Resolve the LOCATION_ERROR_CODES entry for a native error code
+ * @param nativeCode - Code attached to the native promise rejection
+ * @returns Mapped error code, or undefined if unknown
+ */
+export function mapNativeErrorCode(nativeCode: string | undefined): LocationErrorCode | undefined {
+  if (!nativeCode) {
+    return undefined;
+  }
+
+  if (nativeCode in LOCATION_ERROR_CODES) {
+    return nativeCode as LocationErrorCode;
+  }
+
+  return NATIVE_ERROR_CODE_MAP[nativeCode];
+}
+
+/**
+ * Convert any thrown value (typically a native promise rejection) to a TrackingError
+ * @param error - Thrown value
+ * @param fallbackCode - Code to use when the native code is unknown (default: SERVICE_UNAVAILABLE)
+ * @returns TrackingError wrapping the original error
+ */
+export function toTrackingError(
+  error: unknown,
+  fallbackCode: LocationErrorCode = 'SERVICE_UNAVAILABLE'
+): TrackingError {
+  if (error instanceof TrackingError) {
+    return error;
+  }
+
+  const nativeCode = typeof error === 'object' && error !== null && 'code' in error
+    ? String((error as { code: unknown }).code)
+    : undefined;
+  const message = error instanceof Error
+    ? error.message
+    : typeof error === 'string' ? error : 'Unknown tracking error';
+
+  const code = mapNativeErrorCode(nativeCode) ?? fallbackCode;
+  return createTrackingError(code, message, error);
+}
@@ -0,0 +1,292 @@
+import type { RecordedLocation } from './types';
+import { TrackingSession } from './session';
+
+/**
+ * Optional per-point fields written alongside coordinates
+ */
+export type TrackExtension = 'speed' | 'accuracy' | 'bearing';
+
+/**
+ * Options shared by all track exporters
+ */
+export interface TrackExportOptions {
+  /** Track name (default: 'VietMap Track') */
+  name?: string;
+  /** Per-point fields to include, or true for all of them (default: none) */
+  extensions?: TrackExtension[] | boolean;
+}
+
+/**
+ * GeoJSON output of toGeoJSON
+ */
+export interface TrackFeatureCollection {
+  type: 'FeatureCollection';
+  features: Array<{
+    type: 'Feature';
+    geometry: {
+      type: 'LineString';
+      coordinates: number[][];
+    } | {
+      type: 'Point';
+      coordinates: number[];
+    };
+    properties: {
+      name: string;
+      coordTimes: string[];
+      speeds?: Array<number | null>;
+      accuracies?: Array<number | null>;
+      bearings?: Array<number | null>;
+    };
+  }>;
+}
+
+const CREATOR = '@vietmap/rn_vietmap_tracking_plugin';
+const VIETMAP_NAMESPACE = 'https://github.com/vietmap-company/rn_vietmap_tracking_plugin';
+
+function resolveTrack(source: TrackingSession | RecordedLocation[]): RecordedLocation[] {
+  return source instanceof TrackingSession ? source.getLocations() : source;
+}
+
+function resolveExtensions(options: TrackExportOptions): TrackExtension[] {
+  if (options.extensions === true) {
+    return ['speed', 'accuracy', 'bearing'];
+  }
+  return options.extensions || [];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function toIsoTime(timestamp: number): string {
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * Export a track as a GPX 1.1 document.
+ * Speed and bearing use the Garmin TrackPointExtension v2 schema; accuracy uses the plugin namespace.
+ * @param source - Tracking session or recorded locations
+ * @param options - Export options
+ * @returns GPX XML string
+ */
+export function toGPX(source: TrackingSession | RecordedLocation[], options: TrackExportOptions = {}): string {
+  const track = resolveTrack(source);
+  const extensions = resolveExtensions(options);
+  const name = escapeXml(options.name || 'VietMap Track');
+
+  const points = track.map(location => {
+    const lines = [`      <trkpt lat="${location.latitude}" lon="${location.longitude}">`];
+    if (location.altitude !== undefined) {
+      lines.push(`        <ele>${location.altitude}</ele>`);
+    }
+    lines.push(`        <time>${toIsoTime(location.timestamp)}</time>`);
+
+    const garmin: string[] = [];
+    if (extensions.includes('speed') && location.speed !== undefined) {
+      garmin.push(`            <gpxtpx:speed>${location.speed}</gpxtpx:speed>`);
+    }
+    if (extensions.includes('bearing') && location.bearing !== undefined) {
+      garmin.push(`            <gpxtpx:course>${location.bearing}</gpxtpx:course>`);
+    }
+    const hasAccuracy = extensions.includes('accuracy') && location.accuracy !== undefined;
+
+    if (garmin.length > 0 || hasAccuracy) {
+      lines.push('        <extensions>');
+      if (garmin.length > 0) {
+        lines.push('          <gpxtpx:TrackPointExtension>', ...garmin, '          </gpxtpx:TrackPointExtension>');
+      }
+      if (hasAccuracy) {
+        lines.push(`          <vietmap:accuracy>${location.accuracy}</vietmap:accuracy>`);
+      }
+      lines.push('        </extensions>');
+    }
+
+    lines.push('      </trkpt>');
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}"` +
+      ' xmlns="http://www.topografix.com/GPX/1/1"' +
+      ' xmlns:gpxtpx="http://www.garmin.com/xmlschemas/TrackPointExtension/v2"' +
+      ` xmlns:vietmap="${VIETMAP_NAMESPACE}">`,
+    '  <trk>',
+    `    <name>${name}</name>`,
+    '    <trkseg>',
+    ...points,
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    ''
+  ].join('\n');
+}
+
+function readTag(xml: string, tag: string): number | undefined {
+  const match = new RegExp(`<(?:\\w+:)?${tag}>\\s*([^<]+?)\\s*</(?:\\w+:)?${tag}>`).exec(xml);
+  const value = match ? parseFloat(match[1]!) : NaN;
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Read the track points of a GPX document (as written by toGPX or most GPS loggers).
+ * Speed and course are read from TrackPointExtension, accuracy from the plugin namespace.
+ * Points without a valid <time> are placed one second after the previous point.
+ * @param gpx - GPX XML string
+ * @returns Recorded locations in document order
+ */
+export function parseGPX(gpx: string): RecordedLocation[] {
+  const locations: RecordedLocation[] = [];
+  const pointPattern = /<trkpt\b([^>]*?)(?:\/>|>([\s\S]*?)<\/trkpt>)/g;
+
+  for (let match = pointPattern.exec(gpx); match; match = pointPattern.exec(gpx)) {
+    const attributes = match[1]!;
+    const body = match[2] ?? '';
+    const latitude = parseFloat(/\blat="([^"]+)"/.exec(attributes)?.[1] ?? '');
+    const longitude = parseFloat(/\blon="([^"]+)"/.exec(attributes)?.[1] ?? '');
+    if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      continue;
+    }
+
+    const time = Date.parse(/<time>\s*([^<]+?)\s*<\/time>/.exec(body)?.[1] ?? '');
+    const previous = locations[locations.length - 1];
+    const location: RecordedLocation = {
+      latitude,
+      longitude,
+      timestamp: Number.isFinite(time) ? time : (previous ? previous.timestamp + 1000 : 0)
+    };
+
+    const altitude = readTag(body, 'ele');
+    const speed = readTag(body, 'speed');
+    const bearing = readTag(body, 'course');
+    const accuracy = readTag(body, 'accuracy');
+    if (altitude !== undefined) {
+      location.altitude = altitude;
+    }
+    if (speed !== undefined) {
+      location.speed = speed;
+    }
+    if (bearing !== undefined) {
+      location.bearing = bearing;
+    }
+    if (accuracy !== undefined) {
+      location.accuracy = accuracy;
+    }
+    locations.push(location);
+  }
+
+  return locations;
+}
+
+/**
+ * Export a track as a KML 2.2 LineString placemark (a Point for a one-point track, no placemark for an empty one).
+ * Extensions are written as space-separated per-point values in ExtendedData.
+ * @param source - Tracking session or recorded locations
+ * @param options - Export options
+ * @returns KML XML string
+ */
+export function toKML(source: TrackingSession | RecordedLocation[], options: TrackExportOptions = {}): string {
+  const track = resolveTrack(source);
+  const extensions = resolveExtensions(options);
+  const name = escapeXml(options.name || 'VietMap Track');
+
+  const coordinates = track
+    .map(location => `${location.longitude},${location.latitude},${location.altitude ?? 0}`)
+    .join(' ');
+  // A LineString needs at least two positions
+  const geometry = track.length === 1
+    ? ['      <Point>', `        <coordinates>${coordinates}</coordinates>`, '      </Point>']
+    : [
+      '      <LineString>',
+      '        <tessellate>1</tessellate>',
+      `        <coordinates>${coordinates}</coordinates>`,
+      '      </LineString>'
+    ];
+
+  const data = [
+    `        <Data name="timestamps"><value>${track.map(l => toIsoTime(l.timestamp)).join(' ')}</value></Data>`
+  ];
+  extensions.forEach(extension => {
+    const values = track.map(location => location[extension] ?? '').join(' ');
+    data.push(`        <Data name="${extension}"><value>${values}</value></Data>`);
+  });
+
+  // An empty track has nothing to place
+  const placemark = track.length === 0 ? [] : [
+    '    <Placemark>',
+    `      <name>${name}</name>`,
+    '      <ExtendedData>',
+    ...data,
+    '      </ExtendedData>',
+    ...geometry,
+    '    </Placemark>'
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${name}</name>`,
+    ...placemark,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Export a track as a GeoJSON FeatureCollection with a single LineString feature
+ * (a Point feature for a one-point track, no features for an empty one).
+ * Point times are stored in the conventional `coordTimes` property.
+ * @param source - Tracking session or recorded locations
+ * @param options - Export options
+ * @returns GeoJSON object (use JSON.stringify to serialize)
+ */
+export function toGeoJSON(
+  source: TrackingSession | RecordedLocation[],
+  options: TrackExportOptions = {}
+): TrackFeatureCollection {
+  const track = resolveTrack(source);
+  const extensions = resolveExtensions(options);
+  if (track.length === 0) {
+    return { type: 'FeatureCollection', features: [] };
+  }
+
+  const coordinates = track.map(location =>
+    location.altitude !== undefined
+      ? [location.longitude, location.latitude, location.altitude]
+      : [location.longitude, location.latitude]
+  );
+
+  const properties: TrackFeatureCollection['features'][number]['properties'] = {
+    name: options.name || 'VietMap Track',
+    coordTimes: track.map(location => toIsoTime(location.timestamp))
+  };
+  if (extensions.includes('speed')) {
+    properties.speeds = track.map(location => location.speed ?? null);
+  }
+  if (extensions.includes('accuracy')) {
+    properties.accuracies = track.map(location => location.accuracy ?? null);
+  }
+  if (extensions.includes('bearing')) {
+    properties.bearings = track.map(location => location.bearing ?? null);
+  }
+
+  return {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: coordinates.length === 1
+          ? { type: 'Point', coordinates: coordinates[0]! }
+          : { type: 'LineString', coordinates },
+        properties
+      }
+    ]
+  };
+}
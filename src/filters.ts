@@ -0,0 +1,399 @@
+import type { LocationData, RecordedLocation } from './types';
+import type {
+  TrackingEventMap,
+  TrackingEventName,
+  TrackingEventSource,
+  TrackingSubscription,
+} from './backend';
+import { getTrackingEvents } from './backend';
+import { toLocalMeters, fromLocalMeters } from './geometry';
+import { LocationUtils } from './utils';
+import { isValidCoordinate } from './validation';
+
+/**
+ * A stage of the location pipeline
+ */
+export interface LocationFilter {
+  /**
+   * Process the next location
+   * @returns Location to pass downstream, or null to drop it
+   */
+  process(location: LocationData): LocationData | null;
+  /** Forget all state */
+  reset(): void;
+}
+
+/**
+ * Options for KalmanFilter
+ */
+export interface KalmanFilterOptions {
+  /** Acceleration noise density in m²/s³; higher follows manoeuvres faster, lower smooths more (default: 3) */
+  processNoise?: number;
+  /** Gap between fixes after which the filter restarts from the raw fix in ms (default: 30000) */
+  maxGapMs?: number;
+  /** Smallest measurement standard deviation in meters, used when accuracy is missing or tiny (default: 3) */
+  minAccuracy?: number;
+}
+
+interface AxisState {
+  /** Velocity in m/s */
+  velocity: number;
+  /** Covariance [position, cross, velocity] */
+  p00: number;
+  p01: number;
+  p11: number;
+}
+
+/**
+ * Constant-velocity Kalman filter weighted by LocationData.accuracy.
+ * Smooths latitude/longitude; reported speed and bearing are passed through unchanged.
+ */
+export class KalmanFilter implements LocationFilter {
+  private readonly processNoise: number;
+  private readonly maxGapMs: number;
+  private readonly minAccuracy: number;
+
+  private latitude: number = 0;
+  private longitude: number = 0;
+  private timestamp: number = 0;
+  private x: AxisState | null = null;
+  private y: AxisState | null = null;
+
+  constructor(options: KalmanFilterOptions = {}) {
+    this.processNoise = options.processNoise ?? 3;
+    this.maxGapMs = options.maxGapMs ?? 30000;
+    this.minAccuracy = options.minAccuracy ?? 3;
+  }
+
+  process(location: LocationData): LocationData {
+    const variance = Math.max(location.accuracy || 0, this.minAccuracy) ** 2;
+    const dt = (location.timestamp - this.timestamp) / 1000;
+
+    if (!this.x || !this.y || dt < 0 || dt * 1000 > this.maxGapMs) {
+      this.initialize(location, variance);
+      return { ...location };
+    }
+
+    // Predict: move the estimate along its velocity and grow uncertainty
+    this.predict(this.x, dt);
+    this.predict(this.y, dt);
+    const [predictedLat, predictedLon] = fromLocalMeters(
+      this.x.velocity * dt, this.y.velocity * dt,
+      this.latitude, this.longitude
+    );
+
+    // Update: blend with the measurement in meters around the prediction
+    const [mx, my] = toLocalMeters(location.latitude, location.longitude, predictedLat, predictedLon);
+    const dx = this.update(this.x, mx, variance);
+    const dy = this.update(this.y, my, variance);
+    [this.latitude, this.longitude] = fromLocalMeters(dx, dy, predictedLat, predictedLon);
+    this.timestamp = location.timestamp;
+
+    return {
+      ...location,
+      latitude: this.latitude,
+      longitude: this.longitude,
+      accuracy: Math.sqrt(Math.max(this.x.p00, this.y.p00))
+    };
+  }
+
+  reset(): void {
+    this.x = null;
+    this.y = null;
+    this.timestamp = 0;
+  }
+
+  private initialize(location: LocationData, variance: number): void {
+    const speed = location.speed > 0 ? location.speed : 0;
+    const bearing = (location.bearing * Math.PI) / 180;
+    const velocityVariance = 100; // (10 m/s)² until the velocity has been observed
+
+    this.latitude = location.latitude;
+    this.longitude = location.longitude;
+    this.timestamp = location.timestamp;
+    this.x = { velocity: speed * Math.sin(bearing), p00: variance, p01: 0, p11: velocityVariance };
+    this.y = { velocity: speed * Math.cos(bearing), p00: variance, p01: 0, p11: velocityVariance };
+  }
+
+  private predict(axis: AxisState, dt: number): void {
+    const q = this.processNoise;
+    const p00 = axis.p00 + dt * (2 * axis.p01 + dt * axis.p11) + (q * dt ** 3) / 3;
+    const p01 = axis.p01 + dt * axis.p11 + (q * dt ** 2) / 2;
+    const p11 = axis.p11 + q * dt;
+    axis.p00 = p00;
+    axis.p01 = p01;
+    axis.p11 = p11;
+  }
+
+  /**
+   * Apply a position measurement (relative to the predicted position)
+   * @returns Position correction in meters
+   */
+  private update(axis: AxisState, innovation: number, variance: number): number {
+    const s = axis.p00 + variance;
+    const k0 = axis.p00 / s;
+    const k1 = axis.p01 / s;
+
+    axis.velocity += k1 * innovation;
+    const p00 = (1 - k0) * axis.p00;
+    const p01 = (1 - k0) * axis.p01;
+    const p11 = axis.p11 - k1 * axis.p01;
+    axis.p00 = p00;
+    axis.p01 = p01;
+    axis.p11 = p11;
+
+    return k0 * innovation;
+  }
+}
+
+/**
+ * Why OutlierFilter dropped a fix
+ */
+export type OutlierReason =
+  | 'invalid_coordinates'
+  | 'duplicate_timestamp'
+  | 'out_of_order'
+  | 'implied_speed'
+  | 'poor_accuracy';
+
+export interface OutlierVerdict {
+  accepted: boolean;
+  reason?: OutlierReason;
+  /** Speed implied by the previous accepted fix in m/s (when computed) */
+  impliedSpeed?: number;
+}
+
+/**
+ * Options for OutlierFilter
+ */
+export interface OutlierFilterOptions {
+  /** Highest plausible speed between fixes in m/s (default: 83.33, i.e. 300 km/h) */
+  maxSpeed?: number;
+  /** Reject fixes whose accuracy is worse than this multiple of the recent median (default: 3) */
+  accuracyFactor?: number;
+  /** Accuracy in meters that is always accepted, whatever the recent median (default: 20) */
+  acceptableAccuracy?: number;
+  /** Number of recent accepted accuracies used for the median (default: 10) */
+  recentWindow?: number;
+  /** Consecutive rejections after which the next fix is accepted as a new anchor (default: 5) */
+  maxConsecutiveRejections?: number;
+  /** Called for every dropped fix */
+  onReject?: (location: RecordedLocation, reason: OutlierReason) => void;
+}
+
+/**
+ * Stateful filter comparing each fix to the previous accepted one.
+ * Drops teleport jumps, fixes much less accurate than recent ones and duplicate timestamps.
+ */
+export class OutlierFilter implements LocationFilter {
+  private readonly maxSpeed: number;
+  private readonly accuracyFactor: number;
+  private readonly acceptableAccuracy: number;
+  private readonly recentWindow: number;
+  private readonly maxConsecutiveRejections: number;
+  private readonly onReject?: (location: RecordedLocation, reason: OutlierReason) => void;
+
+  private lastAccepted: RecordedLocation | null = null;
+  private recentAccuracies: number[] = [];
+  private consecutiveRejections: number = 0;
+  private rejectionCounts: Partial<Record<OutlierReason, number>> = {};
+
+  constructor(options: OutlierFilterOptions = {}) {
+    this.maxSpeed = options.maxSpeed ?? 83.33;
+    this.accuracyFactor = options.accuracyFactor ?? 3;
+    this.acceptableAccuracy = options.acceptableAccuracy ?? 20;
+    this.recentWindow = options.recentWindow ?? 10;
+    this.maxConsecutiveRejections = options.maxConsecutiveRejections ?? 5;
+    this.onReject = options.onReject;
+  }
+
+  process(location: LocationData): LocationData | null {
+    return this.evaluate(location).accepted ? location : null;
+  }
+
+  /**
+   * Decide whether a fix is accepted and update filter state
+   * @param location - Next fix (accuracy check is skipped when accuracy is missing)
+   * @returns Verdict with the rejection reason
+   */
+  evaluate(location: RecordedLocation): OutlierVerdict {
+    const verdict = this.check(location);
+    if (verdict.accepted) {
+      this.accept(location);
+      return verdict;
+    }
+
+    // After a run of jump/accuracy rejections the device really moved (e.g. out of a tunnel)
+    const reanchorable = verdict.reason === 'implied_speed' || verdict.reason === 'poor_accuracy';
+    if (reanchorable && ++this.consecutiveRejections > this.maxConsecutiveRejections) {
+      this.accept(location);
+      return { accepted: true, impliedSpeed: verdict.impliedSpeed };
+    }
+
+    const reason = verdict.reason!;
+    this.rejectionCounts[reason] = (this.rejectionCounts[reason] ?? 0) + 1;
+    this.onReject?.(location, reason);
+    return verdict;
+  }
+
+  /**
+   * Number of dropped fixes per reason since the last reset
+   */
+  getRejectionCounts(): Partial<Record<OutlierReason, number>> {
+    return { ...this.rejectionCounts };
+  }
+
+  reset(): void {
+    this.lastAccepted = null;
+    this.recentAccuracies = [];
+    this.consecutiveRejections = 0;
+    this.rejectionCounts = {};
+  }
+
+  private check(location: RecordedLocation): OutlierVerdict {
+    const { latitude, longitude } = location;
+    if (!isValidCoordinate(latitude, longitude) || (latitude === 0 && longitude === 0)) {
+      return { accepted: false, reason: 'invalid_coordinates' };
+    }
+
+    const previous = this.lastAccepted;
+    if (!previous) {
+      return { accepted: true };
+    }
+
+    if (location.timestamp === previous.timestamp) {
+      return { accepted: false, reason: 'duplicate_timestamp' };
+    }
+    if (location.timestamp < previous.timestamp) {
+      return { accepted: false, reason: 'out_of_order' };
+    }
+
+    if (location.accuracy !== undefined && location.accuracy > this.acceptableAccuracy) {
+      const median = this.medianAccuracy();
+      if (median !== null && location.accuracy > median * this.accuracyFactor) {
+        return { accepted: false, reason: 'poor_accuracy' };
+      }
+    }
+
+    // Allow both fixes' uncertainty before judging the jump
+    const distance = LocationUtils.calculateDistance(
+      previous.latitude, previous.longitude,
+      latitude, longitude
+    );
+    const tolerance = (previous.accuracy ?? 0) + (location.accuracy ?? 0);
+    const seconds = (location.timestamp - previous.timestamp) / 1000;
+    const impliedSpeed = Math.max(0, distance - tolerance) / seconds;
+
+    if (impliedSpeed > this.maxSpeed) {
+      return { accepted: false, reason: 'implied_speed', impliedSpeed };
+    }
+    return { accepted: true, impliedSpeed };
+  }
+
+  private accept(location: RecordedLocation): void {
+    this.lastAccepted = location;
+    this.consecutiveRejections = 0;
+    if (location.accuracy !== undefined && location.accuracy > 0) {
+      this.recentAccuracies.push(location.accuracy);
+      if (this.recentAccuracies.length > this.recentWindow) {
+        this.recentAccuracies.shift();
+      }
+    }
+  }
+
+  private medianAccuracy(): number | null {
+    if (this.recentAccuracies.length === 0) {
+      return null;
+    }
+    const sorted = [...this.recentAccuracies].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+      ? (sorted[middle - 1]! + sorted[middle]!) / 2
+      : sorted[middle]!;
+  }
+}
+
+type Listener = (location: LocationData) => void;
+
+/**
+ * Location stream that runs onLocationUpdate events through filter stages.
+ * Implements TrackingEventSource, so it can replace the raw feed for GeofenceManager,
+ * TrackingSession.subscribe and other consumers; other events pass through untouched.
+ */
+export class LocationPipeline implements TrackingEventSource {
+  private listeners = new Set<Listener>();
+  private upstream: TrackingSubscription | null = null;
+
+  /**
+   * @param stages - Filter stages applied in order
+   * @param source - Upstream event source (default: active tracking backend)
+   */
+  constructor(
+    private stages: LocationFilter[],
+    private source?: TrackingEventSource
+  ) {}
+
+  addListener<K extends TrackingEventName>(
+    eventName: K,
+    listener: (event: TrackingEventMap[K]) => void
+  ): TrackingSubscription {
+    if (eventName !== 'onLocationUpdate') {
+      return this.getSource().addListener(eventName, listener);
+    }
+
+    const locationListener = listener as Listener;
+    this.listeners.add(locationListener);
+    if (!this.upstream) {
+      this.upstream = this.getSource().addListener('onLocationUpdate', location => this.push(location));
+    }
+
+    return {
+      remove: () => {
+        this.listeners.delete(locationListener);
+        if (this.listeners.size === 0) {
+          this.upstream?.remove();
+          this.upstream = null;
+        }
+      }
+    };
+  }
+
+  /**
+   * Subscribe to filtered location updates
+   * @param callback - Callback function to receive filtered locations
+   * @returns Subscription object with remove method
+   */
+  addLocationUpdateListener(callback: Listener): TrackingSubscription {
+    return this.addListener('onLocationUpdate', callback);
+  }
+
+  /**
+   * Run a location through all stages and notify listeners
+   * @param location - Raw location
+   * @returns Filtered location, or null if a stage dropped it
+   */
+  push(location: LocationData): LocationData | null {
+    let current: LocationData | null = location;
+    for (const stage of this.stages) {
+      current = stage.process(current);
+      if (!current) {
+        return null;
+      }
+    }
+
+    const filtered = current;
+    this.listeners.forEach(listener => listener(filtered));
+    return filtered;
+  }
+
+  /**
+   * Reset every stage (e.g. when tracking restarts)
+   */
+  reset(): void {
+    this.stages.forEach(stage => stage.reset());
+  }
+
+  private getSource(): TrackingEventSource {
+    return this.source ?? getTrackingEvents();
+  }
+}
@@ -0,0 +1,207 @@
+import type { LocationData } from './types';
+import type { TrackingEventSource, TrackingSubscription } from './backend';
+import { getTrackingEvents } from './backend';
+import { LocationUtils } from './utils';
+import { isPointInRing, distanceToRing } from './geometry';
+
+/**
+ * GeoJSON Polygon geometry ([longitude, latitude] positions, first ring is the outer boundary)
+ */
+export interface GeoJSONPolygon {
+  type: 'Polygon';
+  coordinates: number[][][];
+}
+
+interface GeofenceBase {
+  /** Unique fence id */
+  id: string;
+  /** Time inside the fence before a dwell event in ms (default: manager dwellMs) */
+  dwellMs?: number;
+}
+
+export interface CircularGeofence extends GeofenceBase {
+  type: 'circle';
+  latitude: number;
+  longitude: number;
+  /** Radius in meters */
+  radius: number;
+}
+
+export interface PolygonGeofence extends GeofenceBase {
+  type: 'polygon';
+  polygon: GeoJSONPolygon;
+}
+
+export type Geofence = CircularGeofence | PolygonGeofence;
+
+export type GeofenceTransition = 'enter' | 'exit' | 'dwell';
+
+export interface GeofenceEvent {
+  type: GeofenceTransition;
+  fence: Geofence;
+  /** Location that triggered the transition */
+  location: LocationData;
+}
+
+export type GeofenceCallback = (event: GeofenceEvent) => void;
+
+/**
+ * Options for GeofenceManager
+ */
+export interface GeofenceManagerOptions {
+  /** Distance beyond the boundary required before an exit is reported in meters (default: 20) */
+  hysteresisMeters?: number;
+  /** Default time inside a fence before a dwell event in ms (default: 300000) */
+  dwellMs?: number;
+}
+
+interface FenceState {
+  fence: Geofence;
+  inside: boolean | null;
+  enteredAt: number;
+  dwellReported: boolean;
+}
+
+/**
+ * Tracks many named geofences against the location stream and emits enter/exit/dwell transitions
+ */
+export class GeofenceManager {
+  private readonly hysteresisMeters: number;
+  private readonly dwellMs: number;
+  private fences = new Map<string, FenceState>();
+  private listeners = new Set<GeofenceCallback>();
+  private subscription: TrackingSubscription | null = null;
+
+  constructor(options: GeofenceManagerOptions = {}) {
+    this.hysteresisMeters = options.hysteresisMeters ?? 20;
+    this.dwellMs = options.dwellMs ?? 300000;
+  }
+
+  /**
+   * Add or replace a geofence
+   * @param fence - Geofence definition
+   */
+  addGeofence(fence: Geofence): void {
+    this.fences.set(fence.id, { fence, inside: null, enteredAt: 0, dwellReported: false });
+  }
+
+  /**
+   * Remove a geofence
+   * @param id - Fence id
+   * @returns True if the fence existed
+   */
+  removeGeofence(id: string): boolean {
+    return this.fences.delete(id);
+  }
+
+  /**
+   * Get all registered geofences
+   */
+  getGeofences(): Geofence[] {
+    return Array.from(this.fences.values(), state => state.fence);
+  }
+
+  /**
+   * Check whether the last processed location was inside a fence
+   * @param id - Fence id
+   * @returns True if inside, false if outside or unknown
+   */
+  isInside(id: string): boolean {
+    return this.fences.get(id)?.inside === true;
+  }
+
+  /**
+   * Subscribe to geofence transitions
+   * @param callback - Callback function to receive transitions
+   * @returns Subscription object with remove method
+   */
+  addListener(callback: GeofenceCallback): TrackingSubscription {
+    this.listeners.add(callback);
+    return {
+      remove: () => {
+        this.listeners.delete(callback);
+      }
+    };
+  }
+
+  /**
+   * Start consuming onLocationUpdate events
+   * @param source - Event source (default: active tracking backend)
+   */
+  start(source: TrackingEventSource = getTrackingEvents()): void {
+    this.stop();
+    this.subscription = source.addListener('onLocationUpdate', location => this.processLocation(location));
+  }
+
+  /**
+   * Stop consuming location events
+   */
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+
+  /**
+   * Evaluate all fences against a location and emit transitions
+   * @param location - New location
+   * @returns Transitions triggered by this location
+   */
+  processLocation(location: LocationData): GeofenceEvent[] {
+    const events: GeofenceEvent[] = [];
+
+    this.fences.forEach(state => {
+      const distance = this.signedDistance(state.fence, location);
+
+      if (state.inside !== true && distance <= 0) {
+        state.inside = true;
+        state.enteredAt = location.timestamp;
+        state.dwellReported = false;
+        events.push({ type: 'enter', fence: state.fence, location });
+      } else if (state.inside === true && distance > this.hysteresisMeters) {
+        state.inside = false;
+        events.push({ type: 'exit', fence: state.fence, location });
+      } else if (state.inside === null) {
+        // First fix outside the fence only establishes the initial state
+        state.inside = false;
+      }
+
+      const dwellMs = state.fence.dwellMs ?? this.dwellMs;
+      if (state.inside && !state.dwellReported && location.timestamp - state.enteredAt >= dwellMs) {
+        state.dwellReported = true;
+        events.push({ type: 'dwell', fence: state.fence, location });
+      }
+    });
+
+    events.forEach(event => this.listeners.forEach(listener => listener(event)));
+    return events;
+  }
+
+  /**
+   * Distance to the fence boundary: negative inside, positive outside (meters)
+   */
+  private signedDistance(fence: Geofence, location: LocationData): number {
+    if (fence.type === 'circle') {
+      return LocationUtils.calculateDistance(
+        location.latitude, location.longitude,
+        fence.latitude, fence.longitude
+      ) - fence.radius;
+    }
+
+    const [outer, ...holes] = fence.polygon.coordinates;
+    if (!outer) {
+      return Infinity;
+    }
+
+    const { latitude, longitude } = location;
+    const hole = holes.find(ring => isPointInRing(latitude, longitude, ring));
+    if (hole) {
+      return distanceToRing(latitude, longitude, hole);
+    }
+
+    const boundaryDistance = Math.min(
+      distanceToRing(latitude, longitude, outer),
+      ...holes.map(ring => distanceToRing(latitude, longitude, ring))
+    );
+    return isPointInRing(latitude, longitude, outer) ? -boundaryDistance : boundaryDistance;
+  }
+}
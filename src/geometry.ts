@@ -0,0 +1,142 @@
+/**
+ * Mean Earth radius in meters (same value as LocationUtils.calculateDistance)
+ */
+export const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Result of projecting a point onto a segment
+ */
+export interface SegmentProjection {
+  /** Latitude of the closest point on the segment */
+  latitude: number;
+  /** Longitude of the closest point on the segment */
+  longitude: number;
+  /** Position along the segment (0 = start, 1 = end) */
+  fraction: number;
+  /** Distance from the point to the segment in meters */
+  distance: number;
+}
+
+function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180);
+}
+
+/**
+ * Convert a coordinate to local planar meters around a reference point (equirectangular).
+ * Accurate for the short distances between consecutive GPS fixes and road segments.
+ * @param latitude - Latitude of the point
+ * @param longitude - Longitude of the point
+ * @param refLatitude - Latitude of the reference point
+ * @param refLongitude - Longitude of the reference point
+ * @returns [x, y] in meters (x east, y north)
+ */
+export function toLocalMeters(
+  latitude: number, longitude: number,
+  refLatitude: number, refLongitude: number
+): [number, number] {
+  const x = toRadians(longitude - refLongitude) * Math.cos(toRadians(refLatitude)) * EARTH_RADIUS_METERS;
+  const y = toRadians(latitude - refLatitude) * EARTH_RADIUS_METERS;
+  return [x, y];
+}
+
+/**
+ * Convert local planar meters back to a coordinate
+ * @param x - Meters east of the reference point
+ * @param y - Meters north of the reference point
+ * @param refLatitude - Latitude of the reference point
+ * @param refLongitude - Longitude of the reference point
+ * @returns [latitude, longitude]
+ */
+export function fromLocalMeters(
+  x: number, y: number,
+  refLatitude: number, refLongitude: number
+): [number, number] {
+  const latitude = refLatitude + (y / EARTH_RADIUS_METERS) * (180 / Math.PI);
+  const longitude = refLongitude +
+    (x / (EARTH_RADIUS_METERS * Math.cos(toRadians(refLatitude)))) * (180 / Math.PI);
+  return [latitude, longitude];
+}
+
+/**
+ * Project a point onto the segment start → end
+ * @param latitude - Latitude of the point
+ * @param longitude - Longitude of the point
+ * @param startLat - Segment start latitude
+ * @param startLon - Segment start longitude
+ * @param endLat - Segment end latitude
+ * @param endLon - Segment end longitude
+ * @returns Closest point on the segment and its distance
+ */
+export function projectOntoSegment(
+  latitude: number, longitude: number,
+  startLat: number, startLon: number,
+  endLat: number, endLon: number
+): SegmentProjection {
+  const [px, py] = toLocalMeters(latitude, longitude, startLat, startLon);
+  const [ex, ey] = toLocalMeters(endLat, endLon, startLat, startLon);
+  const lengthSquared = ex * ex + ey * ey;
+
+  let fraction = lengthSquared > 0 ? (px * ex + py * ey) / lengthSquared : 0;
+  fraction = Math.max(0, Math.min(1, fraction));
+
+  const cx = fraction * ex;
+  const cy = fraction * ey;
+  const [closestLat, closestLon] = fromLocalMeters(cx, cy, startLat, startLon);
+
+  return {
+    latitude: closestLat,
+    longitude: closestLon,
+    fraction,
+    distance: Math.hypot(px - cx, py - cy)
+  };
+}
+
+/**
+ * Check if a point lies inside a ring using ray casting
+ * @param latitude - Latitude of the point
+ * @param longitude - Longitude of the point
+ * @param ring - Ring of [longitude, latitude] positions (GeoJSON order)
+ * @returns True if the point is inside the ring
+ */
+export function isPointInRing(latitude: number, longitude: number, ring: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi = 0, yi = 0] = ring[i]!;
+    const [xj = 0, yj = 0] = ring[j]!;
+    const intersects = (yi > latitude) !== (yj > latitude) &&
+      longitude < ((xj - xi) * (latitude - yi)) / (yj - yi) + xi;
+    if (intersects) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Distance from a point to the nearest edge of a ring
+ * @param latitude - Latitude of the point
+ * @param longitude - Longitude of the point
+ * @param ring - Ring of [longitude, latitude] positions (GeoJSON order)
+ * @returns Distance in meters
+ */
+export function distanceToRing(latitude: number, longitude: number, ring: number[][]): number {
+  let minDistance = Infinity;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [startLon = 0, startLat = 0] = ring[i]!;
+    const [endLon = 0, endLat = 0] = ring[i + 1]!;
+    const { distance } = projectOntoSegment(latitude, longitude, startLat, startLon, endLat, endLon);
+    minDistance = Math.min(minDistance, distance);
+  }
+  return minDistance;
+}
+
+/**
+ * Smallest angle between two bearings
+ * @param a - First bearing in degrees
+ * @param b - Second bearing in degrees
+ * @returns Difference in degrees (0-180)
+ */
+export function bearingDifference(a: number, b: number): number {
+  const difference = Math.abs(a - b) % 360;
+  return difference > 180 ? 360 - difference : difference;
+}
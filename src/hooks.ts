@@ -0,0 +1,356 @@
+import { useCallback, useEffect, useState, useSyncExternalStore } from 'react';
+import type { LocationData, LocationTrackingConfig, PermissionResult, TrackingStatus } from './types';
+import { getTrackingEvents, onTrackingBackendChange } from './backend';
+import type { TrackingEventSource } from './backend';
+import { TrackingError, toTrackingError } from './errors';
+import {
+  getCurrentLocation,
+  getTrackingStatus,
+  hasLocationPermissions,
+  requestAlwaysLocationPermissions,
+  requestLocationPermissions,
+  startLocationTracking,
+  stopLocationTracking,
+} from './tracking';
+
+/**
+ * Value shared by every component using the same hook, connected to the tracking backend
+ * only while at least one component is subscribed
+ */
+export class SharedStore<T> {
+  private value: T;
+  private listeners = new Set<() => void>();
+  private disconnect: (() => void) | null = null;
+
+  /**
+   * @param initialValue - Value before the first update
+   * @param connect - Subscribes to the backend; returns the matching cleanup
+   */
+  constructor(
+    initialValue: T,
+    private connect: (store: SharedStore<T>) => () => void
+  ) {
+    this.value = initialValue;
+  }
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    if (this.listeners.size === 1) {
+      this.disconnect = this.connect(this);
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.disconnect?.();
+        this.disconnect = null;
+      }
+    };
+  };
+
+  getSnapshot = (): T => this.value;
+
+  /**
+   * Reconnect subscribed components to the backend, e.g. after the active backend changed
+   */
+  reconnect(): void {
+    if (this.listeners.size > 0) {
+      this.disconnect?.();
+      this.disconnect = this.connect(this);
+    }
+  }
+
+  /**
+   * Merge a partial update and notify subscribers
+   */
+  update(partial: Partial<T>): void {
+    this.value = { ...this.value, ...partial };
+    this.listeners.forEach(listener => listener());
+  }
+
+  /**
+   * Number of subscribed components
+   */
+  getSubscriberCount(): number {
+    return this.listeners.size;
+  }
+}
+
+export interface AsyncState {
+  /** True while the initial or a manual refresh is in flight */
+  loading: boolean;
+  /** Last failure, cleared on the next success */
+  error: TrackingError | null;
+}
+
+export interface TrackingStatusState extends AsyncState {
+  status: TrackingStatus | null;
+}
+
+export interface PermissionState extends AsyncState {
+  permission: PermissionResult | null;
+}
+
+export interface LiveLocationState {
+  location: LocationData | null;
+  /** Last onLocationError event, as a LOCATION_UNAVAILABLE TrackingError */
+  error: TrackingError | null;
+}
+
+/**
+ * Run a request and write loading/result/error into a store; concurrent refreshes share one request
+ */
+function createRefresher<T extends AsyncState>(
+  store: SharedStore<T>,
+  request: () => Promise<Partial<T>>
+): () => Promise<void> {
+  let inFlight: Promise<void> | null = null;
+  return () => {
+    if (!inFlight) {
+      store.update({ loading: true } as Partial<T>);
+      inFlight = request()
+        .then(result => store.update({ ...result, loading: false, error: null }))
+        .catch(error => store.update({ loading: false, error: toTrackingError(error) } as Partial<T>))
+        .finally(() => {
+          inFlight = null;
+        });
+    }
+    return inFlight;
+  };
+}
+
+/**
+ * Get the backend's event source, or put the failure in the store's error state so the
+ * subscribing component renders the error instead of throwing on mount
+ */
+function connectEvents<T extends { error: TrackingError | null }>(store: SharedStore<T>): TrackingEventSource | null {
+  try {
+    return getTrackingEvents();
+  } catch (error) {
+    store.update({ error: toTrackingError(error) } as Partial<T>);
+    return null;
+  }
+}
+
+export const trackingStatusStore = new SharedStore<TrackingStatusState>(
+  { status: null, loading: true, error: null },
+  store => {
+    const events = connectEvents(store);
+    if (!events) {
+      store.update({ loading: false });
+      return () => {};
+    }
+    refreshTrackingStatus();
+    const subscription = events.addListener('onTrackingStatusChanged', status => {
+      store.update({ status, loading: false, error: null });
+    });
+    return () => subscription.remove();
+  }
+);
+
+export const refreshTrackingStatus = createRefresher(trackingStatusStore, async () => ({
+  status: await getTrackingStatus()
+}));
+
+export const permissionStore = new SharedStore<PermissionState>(
+  { permission: null, loading: true, error: null },
+  store => {
+    const events = connectEvents(store);
+    if (!events) {
+      store.update({ loading: false });
+      return () => {};
+    }
+    refreshPermissions();
+    const subscription = events.addListener('onPermissionChanged', () => {
+      refreshPermissions();
+    });
+    return () => subscription.remove();
+  }
+);
+
+export const refreshPermissions = createRefresher(permissionStore, async () => ({
+  permission: await hasLocationPermissions()
+}));
+
+export const liveLocationStore = new SharedStore<LiveLocationState>(
+  { location: null, error: null },
+  store => {
+    const events = connectEvents(store);
+    if (!events) {
+      return () => {};
+    }
+    const locationSubscription = events.addListener('onLocationUpdate', location => {
+      store.update({ location, error: null });
+    });
+    const errorSubscription = events.addListener('onLocationError', event => {
+      store.update({ error: new TrackingError('LOCATION_UNAVAILABLE', event.error, event) });
+    });
+    return () => {
+      locationSubscription.remove();
+      errorSubscription.remove();
+    };
+  }
+);
+
+// Mounted components follow setTrackingBackend/resetTrackingBackend to the new event source
+onTrackingBackendChange(() => {
+  trackingStatusStore.reconnect();
+  permissionStore.reconnect();
+  liveLocationStore.reconnect();
+});
+
+function useSharedStore<T>(store: SharedStore<T>): T {
+  return useSyncExternalStore(store.subscribe, store.getSnapshot, store.getSnapshot);
+}
+
+/**
+ * Tracking status kept in sync with onTrackingStatusChanged
+ * @returns Status, loading/error state and a refresh function
+ */
+export function useTrackingStatus(): TrackingStatusState & { refresh: () => Promise<void> } {
+  const state = useSharedStore(trackingStatusStore);
+  return { ...state, refresh: refreshTrackingStatus };
+}
+
+/**
+ * Location permission state kept in sync with onPermissionChanged
+ * @returns Permission, loading/error state and request functions
+ */
+export function usePermissions(): PermissionState & {
+  granted: boolean;
+  request: () => Promise<PermissionResult>;
+  requestAlways: () => Promise<string>;
+  refresh: () => Promise<void>;
+} {
+  const state = useSharedStore(permissionStore);
+
+  const request = useCallback(async () => {
+    const result = await requestLocationPermissions();
+    permissionStore.update({ permission: result, loading: false, error: null });
+    return result;
+  }, []);
+
+  const requestAlways = useCallback(async () => {
+    const result = await requestAlwaysLocationPermissions();
+    await refreshPermissions();
+    return result;
+  }, []);
+
+  return {
+    ...state,
+    granted: state.permission?.granted === true,
+    request,
+    requestAlways,
+    refresh: refreshPermissions
+  };
+}
+
+/**
+ * Fetch the current location once, optionally following live updates afterwards
+ * @param options - watch: keep updating from onLocationUpdate (default: false)
+ * @returns Location, loading/error state and a refresh function
+ */
+export function useCurrentLocation(options: { watch?: boolean } = {}): LiveLocationState & AsyncState & {
+  refresh: () => Promise<void>;
+} {
+  const watch = options.watch ?? false;
+  const [state, setState] = useState<{ location: LocationData | null } & AsyncState>({
+    location: null,
+    loading: true,
+    error: null
+  });
+
+  const load = useCallback(async (isCancelled: () => boolean = () => false) => {
+    setState(previous => ({ ...previous, loading: true }));
+    try {
+      const location = await getCurrentLocation();
+      if (!isCancelled()) {
+        setState({ location, loading: false, error: null });
+      }
+    } catch (error) {
+      if (!isCancelled()) {
+        setState(previous => ({ ...previous, loading: false, error: toTrackingError(error) }));
+      }
+    }
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    load(() => cancelled);
+    return () => {
+      cancelled = true;
+    };
+  }, [load]);
+
+  const live = useSyncExternalStore(
+    watch ? liveLocationStore.subscribe : noopSubscribe,
+    liveLocationStore.getSnapshot,
+    liveLocationStore.getSnapshot
+  );
+
+  // A streamed fix newer than the one-shot result wins
+  const location = watch && live.location &&
+    (!state.location || live.location.timestamp > state.location.timestamp)
+    ? live.location
+    : state.location;
+
+  return { ...state, location, error: state.error ?? (watch ? live.error : null), refresh: () => load() };
+}
+
+function noopSubscribe(): () => void {
+  return () => {};
+}
+
+/**
+ * Start/stop tracking with the status and latest location shared across components
+ * @param config - Configuration used by start() when none is passed
+ * @returns Tracking state, latest location and start/stop functions
+ */
+export function useLocationTracking(config?: LocationTrackingConfig): {
+  isTracking: boolean;
+  status: TrackingStatus | null;
+  location: LocationData | null;
+  loading: boolean;
+  error: TrackingError | null;
+  start: (overrideConfig?: LocationTrackingConfig) => Promise<boolean>;
+  stop: () => Promise<boolean>;
+} {
+  const statusState = useSharedStore(trackingStatusStore);
+  const live = useSharedStore(liveLocationStore);
+  const [action, setAction] = useState<AsyncState>({ loading: false, error: null });
+
+  const run = useCallback(async (operation: () => Promise<boolean>) => {
+    setAction({ loading: true, error: null });
+    try {
+      const result = await operation();
+      setAction({ loading: false, error: null });
+      return result;
+    } catch (error) {
+      const trackingError = toTrackingError(error);
+      setAction({ loading: false, error: trackingError });
+      throw trackingError;
+    } finally {
+      // Other components see the new state even if the native status event is late
+      refreshTrackingStatus();
+    }
+  }, []);
+
+  const start = useCallback((overrideConfig?: LocationTrackingConfig) => {
+    const startConfig = overrideConfig ?? config;
+    if (!startConfig) {
+      return Promise.reject(new TrackingError('INVALID_CONFIG', 'No tracking configuration provided'));
+    }
+    return run(() => startLocationTracking(startConfig));
+  }, [config, run]);
+
+  const stop = useCallback(() => run(stopLocationTracking), [run]);
+
+  return {
+    isTracking: statusState.status?.isTracking === true,
+    status: statusState.status,
+    location: live.location,
+    loading: action.loading || statusState.loading,
+    error: action.error ?? statusState.error ?? live.error,
+    start,
+    stop
+  };
+}
@@ -1,49 +1,52 @@
-import { NativeEventEmitter, NativeModules } from 'react-native';
-import RnVietmapTrackingPlugin from './NativeRnVietmapTrackingPlugin';
+import { getTrackingModule, getTrackingEvents } from './backend';
 import { validateLocationConfig, normalizeLocationConfig } from './validation';
+import { toTrackingError } from './errors';
+import { SpeedViolationMonitor } from './speed';
+import { startLocationTracking, stopLocationTracking } from './tracking';
+import type { SpeedViolationMonitorOptions } from './speed';
 import type {
   LocationTrackingConfig,
   LocationData,
+  RecordedLocation,
+  Stop,
+  StopCallback,
+  SessionStats,
+  SessionSplit,
   TrackingStatus,
+  TrackingConfigUpdateResult,
   LocationUpdateCallback,
   TrackingStatusCallback,
+  LocationErrorCallback,
+  PermissionChangeCallback,
+  RouteUpdateCallback,
+  SpeedViolationCallback,
+  LocationErrorEvent,
+  PermissionChangeEvent,
+  RouteUpdateEvent,
   PermissionResult,
+  RouteLink,
+  RouteAlert,
+  ProcessedRouteData,
+  NearestAlertResult,
+  SpeedViolationResult,
+  SpeedViolationEvent,
 } from './types';
 
-// Event emitter for location updates
-const eventEmitter = new NativeEventEmitter(NativeModules.RnVietmapTrackingPlugin);
-
 export function multiply(a: number, b: number): number {
-  return RnVietmapTrackingPlugin.multiply(a, b);
-}
-
-/**
- * Request location permissions
- * @returns Promise<PermissionResult> - Permission result with detailed status
- */
-export async function requestLocationPermissions(): Promise<PermissionResult> {
-  try {
-    const result = await RnVietmapTrackingPlugin.requestLocationPermissions();
-    return result;
-  } catch (error) {
-    console.error('Failed to request location permissions:', error);
-    throw error;
-  }
+  return getTrackingModule().multiply(a, b);
 }
 
-/**
- * Check if location permissions are granted
- * @returns Promise<PermissionResult> - Current permission status
- */
-export async function hasLocationPermissions(): Promise<PermissionResult> {
-  try {
-    const result = await RnVietmapTrackingPlugin.hasLocationPermissions();
-    return result;
-  } catch (error) {
-    console.error('Failed to check location permissions:', error);
-    throw error;
-  }
-}
+// Tracking lifecycle and permissions (see ./tracking)
+export {
+  requestLocationPermissions,
+  hasLocationPermissions,
+  startLocationTracking,
+  stopLocationTracking,
+  getCurrentLocation,
+  isTrackingActive,
+  getTrackingStatus,
+  requestAlwaysLocationPermissions,
+} from './tracking';
 
 /**
  * Configure VietmapTrackingSDK with API key and settings
@@ -54,11 +57,11 @@ export async function hasLocationPermissions(): Promise<PermissionResult> {
  */
 export async function configure(apiKey: string, baseURL?: string): Promise<boolean> {
   try {
-    const result = await RnVietmapTrackingPlugin.configure(apiKey, baseURL);
+    const result = await getTrackingModule().configure(apiKey, baseURL);
     return result;
   } catch (error) {
     console.error('Failed to configure VietmapTrackingSDK:', error);
-    throw error;
+    throw toTrackingError(error);
   }
 }
 
@@ -70,124 +73,78 @@ export async function configure(apiKey: string, baseURL?: string): Promise<boole
  */
 export async function configureAlertAPI(apiKey: string, apiID: string): Promise<boolean> {
   try {
-    const result = await RnVietmapTrackingPlugin.configureAlertAPI(apiKey, apiID);
+    const result = await getTrackingModule().configureAlertAPI(apiKey, apiID);
     return result;
   } catch (error) {
     console.error('Failed to configure Alert API:', error);
-    throw error;
+    throw toTrackingError(error);
   }
 }
 
 /**
- * Start GPS location tracking with specified configuration
- * @param config - Configuration for location tracking
- * @returns Promise<boolean> - Success status
- */
-export async function startLocationTracking(config: LocationTrackingConfig): Promise<boolean> {
-  try {
-    // Request permissions first
-    const permissionStatus = await hasLocationPermissions();
-    if (!permissionStatus.granted) {
-      const permissionResult = await requestLocationPermissions();
-      if (!permissionResult.granted) {
-        throw new Error('Location permission denied');
-      }
-    }
-
-    // Extract parameters from config for native call
-    const backgroundMode = config.backgroundMode || false;
-    const intervalMs = config.intervalMs || 5000;
-    const distanceFilter = config.distanceFilter || 10;
-    const notificationTitle = config.notificationTitle;
-    const notificationMessage = config.notificationMessage;
-
-    const result = await RnVietmapTrackingPlugin.startTracking(
-      backgroundMode,
-      intervalMs,
-      distanceFilter,
-      notificationTitle,
-      notificationMessage
-    );
-    return result;
-  } catch (error) {
-    console.error('Failed to start location tracking:', error);
-    throw error;
-  }
-}
-
-/**
- * Stop GPS location tracking
- * @returns Promise<boolean> - Success status
- */
-export async function stopLocationTracking(): Promise<boolean> {
-  try {
-    const result = await RnVietmapTrackingPlugin.stopTracking();
-    return result;
-  } catch (error) {
-    console.error('Failed to stop location tracking:', error);
-    return false;
-  }
-}
-
-/**
- * Get current location immediately
- * @returns Promise<LocationData> - Current location data
- */
-export async function getCurrentLocation(): Promise<LocationData> {
-  const location = await RnVietmapTrackingPlugin.getCurrentLocation();
-  return location as LocationData;
-}
-
-/**
- * Check if location tracking is currently active
- * @returns Promise<boolean> - Tracking status
+ * Subscribe to location updates
+ * @param callback - Callback function to receive location updates
+ * @returns Subscription object with remove method
  */
-export async function isTrackingActive(): Promise<boolean> {
-  return await RnVietmapTrackingPlugin.isTrackingActive();
+export function addLocationUpdateListener(callback: LocationUpdateCallback) {
+  return getTrackingEvents().addListener('onLocationUpdate', callback);
 }
 
 /**
- * Get detailed tracking status
- * @returns Promise<TrackingStatus> - Detailed status information
+ * Subscribe to tracking status changes
+ * @param callback - Callback function to receive status updates
+ * @returns Subscription object with remove method
  */
-export async function getTrackingStatus(): Promise<TrackingStatus> {
-  const status = await RnVietmapTrackingPlugin.getTrackingStatus();
-  return status as TrackingStatus;
+export function addTrackingStatusListener(callback: TrackingStatusCallback) {
+  return getTrackingEvents().addListener('onTrackingStatusChanged', callback);
 }
 
 /**
- * Update tracking configuration while tracking is active
- * @param config - New configuration
- * @returns Promise<boolean> - Success status
+ * Subscribe to location errors reported by the native tracking manager
+ * @param callback - Callback function to receive error events
+ * @returns Subscription object with remove method
  */
-export async function updateTrackingConfig(config: LocationTrackingConfig): Promise<boolean> {
-  return RnVietmapTrackingPlugin.updateTrackingConfig(config);
+export function addLocationErrorListener(callback: LocationErrorCallback) {
+  return getTrackingEvents().addListener('onLocationError', callback);
 }
 
 /**
- * Request always location permissions (required for background tracking)
- * @returns Promise<string> - Permission status
+ * Subscribe to location permission changes
+ * @param callback - Callback function to receive permission events
+ * @returns Subscription object with remove method
  */
-export async function requestAlwaysLocationPermissions(): Promise<string> {
-  return RnVietmapTrackingPlugin.requestAlwaysLocationPermissions();
+export function addPermissionChangeListener(callback: PermissionChangeCallback) {
+  return getTrackingEvents().addListener('onPermissionChanged', callback);
 }
 
 /**
- * Subscribe to location updates
- * @param callback - Callback function to receive location updates
+ * Subscribe to route data updates
+ * @param callback - Callback function to receive route update events
  * @returns Subscription object with remove method
  */
-export function addLocationUpdateListener(callback: LocationUpdateCallback) {
-  return eventEmitter.addListener('onLocationUpdate', callback);
+export function addRouteUpdateListener(callback: RouteUpdateCallback) {
+  return getTrackingEvents().addListener('onRouteUpdate', callback);
 }
 
 /**
- * Subscribe to tracking status changes
- * @param callback - Callback function to receive status updates
+ * Subscribe to speed violation episodes computed in JS from the route speed limits
+ * @param callback - Callback function to receive violationStarted/violationEnded events
+ * @param options - Route, tolerance, minimum duration and exit hysteresis
  * @returns Subscription object with remove method
  */
-export function addTrackingStatusListener(callback: TrackingStatusCallback) {
-  return eventEmitter.addListener('onTrackingStatusChanged', callback);
+export function addSpeedViolationListener(
+  callback: SpeedViolationCallback,
+  options: SpeedViolationMonitorOptions
+) {
+  const monitor = new SpeedViolationMonitor(options);
+  const listener = monitor.addListener(callback);
+  monitor.start();
+  return {
+    remove: () => {
+      listener.remove();
+      monitor.stop();
+    }
+  };
 }
 
 /**
@@ -217,46 +174,165 @@ export function createDefaultConfig(intervalMs: number = 5000): LocationTracking
 /**
  * Turn on speed alert monitoring (native handles permission checking)
  * @returns Promise<boolean> - Returns true if speed alert turned on successfully, false otherwise
+ * @throws TrackingError if the native module rejects
  */
 export async function turnOnAlert(): Promise<boolean> {
   try {
-    return await RnVietmapTrackingPlugin.turnOnAlert();
+    return await getTrackingModule().turnOnAlert();
   } catch (error) {
     console.error('❌ Failed to turn on speed alert:', error);
-    return false;
+    throw toTrackingError(error);
   }
 }
 
 /**
  * Turn off speed alert monitoring
  * @returns Promise<boolean> - Returns true if speed alert turned off successfully, false otherwise
+ * @throws TrackingError if the native module rejects
  */
 export async function turnOffAlert(): Promise<boolean> {
   try {
-    return await RnVietmapTrackingPlugin.turnOffAlert();
+    return await getTrackingModule().turnOffAlert();
   } catch (error) {
     console.error('❌ Failed to turn off speed alert:', error);
-    return false;
+    throw toTrackingError(error);
   }
 }
 
 // MARK: - Route and Alert Processing Functions
-// Note: Route processing functions are now handled natively.
-// Use RnVietmapTrackingPlugin directly for route processing:
-// - RnVietmapTrackingPlugin.processRouteData(routeJson)
+// Route processing runs in TypeScript (see ./route) so it behaves the same on both platforms:
+// - processRouteData(routeJson)
+// - findNearestAlert(location, route)
+// - checkSpeedViolation(location, route) / addSpeedViolationListener(callback, { route })
+// Remaining native-only methods (iOS):
 // - RnVietmapTrackingPlugin.getCurrentRouteInfo()
-// - RnVietmapTrackingPlugin.findNearestAlert(latitude, longitude)
-// - RnVietmapTrackingPlugin.checkSpeedViolation(currentSpeed)
 
-// Speed alert events are now handled natively with speech synthesis
-// No need for JavaScript listeners
+// Spoken speed alerts (turnOnAlert) remain native; the JS engine above only reports violations
 
 // Alias functions for backward compatibility
 export const startTracking = startLocationTracking;
 export const stopTracking = stopLocationTracking;
 
+// Export configuration updates
+export { updateTrackingConfig, getActiveTrackingConfig } from './trackingConfig';
+
+// Export React hooks
+export { useLocationTracking, useCurrentLocation, useTrackingStatus, usePermissions } from './hooks';
+export type { AsyncState, TrackingStatusState, PermissionState, LiveLocationState } from './hooks';
+
 // Export utilities and presets
-export { TrackingPresets, LocationUtils, TrackingSession } from './utils';
+export { TrackingPresets, LocationUtils } from './utils';
+export { TrackingSession } from './session';
+export type { TrackingSessionOptions } from './session';
+export { StopDetector } from './stops';
+export type { StopDetectionOptions } from './stops';
+export { SessionStatsAccumulator } from './stats';
+export type { SessionStatsOptions, TrackStats } from './stats';
+
+// Export adaptive tracking
+export { AdaptiveTracker } from './adaptive';
+export type {
+  TrackingPresetName,
+  AdaptiveChangeReason,
+  AdaptiveModeChangeEvent,
+  AdaptiveModeChangeCallback,
+  AdaptiveTrackerOptions,
+} from './adaptive';
+
+// Export storage adapters
+export {
+  MemoryStorageAdapter,
+  AsyncStorageAdapter,
+  setDefaultStorage,
+  getDefaultStorage,
+} from './storage';
+export type { StorageAdapter, AsyncStorageLike } from './storage';
+
+// Export location filters
+export { KalmanFilter, OutlierFilter, LocationPipeline } from './filters';
+export type {
+  LocationFilter,
+  KalmanFilterOptions,
+  OutlierFilterOptions,
+  OutlierReason,
+  OutlierVerdict,
+} from './filters';
+
+// Export geofencing
+export { GeofenceManager } from './geofence';
+export type {
+  Geofence,
+  CircularGeofence,
+  PolygonGeofence,
+  GeoJSONPolygon,
+  GeofenceTransition,
+  GeofenceEvent,
+  GeofenceCallback,
+  GeofenceManagerOptions,
+} from './geofence';
+
+// Export track exporters and NMEA
+export { toGPX, toKML, toGeoJSON, parseGPX } from './export';
+export type { TrackExtension, TrackExportOptions, TrackFeatureCollection } from './export';
+export {
+  NMEAParser,
+  parseNMEA,
+  parseNMEASentence,
+  validateNMEAChecksum,
+  computeNMEAChecksum,
+  toNMEA,
+  formatGGA,
+  formatRMC,
+} from './nmea';
+export type {
+  NMEASentence,
+  GGASentence,
+  RMCSentence,
+  VTGSentence,
+  GSASentence,
+  NMEAParserOptions,
+  NMEARejectReason,
+  NMEAFormatOptions,
+} from './nmea';
+
+// Export route processing
+export { processRouteData, findNearestAlert, getLinkHeadings, getLinkAlerts } from './route';
+export type { RouteJson, RouteLocation, NearestAlertOptions } from './route';
+export { MapMatcher } from './mapMatching';
+export type { MapMatcherOptions, MapMatchResult, MapMatchCallback } from './mapMatching';
+export { OffRouteDetector } from './offRoute';
+export type { OffRouteDetectorOptions, OffRouteEvent, OffRouteCallback, RejoinPoint } from './offRoute';
+export { RouteProgressTracker } from './routeProgress';
+export type { RouteProgressTrackerOptions, RouteProgress, RouteProgressCallback } from './routeProgress';
+export { checkSpeedViolation, SpeedViolationMonitor } from './speed';
+export type { SpeedCheckOptions, SpeedViolationMonitorOptions } from './speed';
+export {
+  decodeSpeedLimits,
+  getSpeedLimit,
+  setSpeedLimitTierLayout,
+  getSpeedLimitTierLayout,
+} from './speedLimits';
+export type { VehicleClass, SpeedLimitRule, SpeedLimitTimeWindow, SpeedLimitTierLayout } from './speedLimits';
+
+// Export track simplification and encoding
+export {
+  simplifyTrack,
+  simplifyDouglasPeucker,
+  simplifyVisvalingam,
+  StreamingSimplifier,
+} from './simplify';
+export type { SimplificationAlgorithm, SimplifyOptions, StreamingSimplifierOptions } from './simplify';
+export { encodePolyline, decodePolyline, encodeTrack, decodeTrack } from './polyline';
+export type { PolylinePrecision, EncodeTrackOptions } from './polyline';
+
+// Export location uploader
+export { LocationUploader, HttpTransport } from './uploader';
+export type {
+  UploadBatch,
+  UploadTransport,
+  HttpTransportOptions,
+  LocationUploaderOptions,
+} from './uploader';
 
 // Export constants
 export * from './constants';
@@ -264,11 +340,48 @@ export * from './constants';
 // Export validation functions
 export * from './validation';
 
+// Export error classes
+export * from './errors';
+
+// Export backend registration, simulator and replay
+export { setTrackingBackend, resetTrackingBackend } from './backend';
+export type {
+  TrackingEventMap,
+  TrackingEventName,
+  TrackingEventSource,
+  TrackingSubscription,
+} from './backend';
+export { TrackingSimulator, toLocationData } from './simulator';
+export type { SimulatedFix, SimulatorOptions } from './simulator';
+export { TripReplay } from './replay';
+export type { ReplayTarget, ReplayState, TripReplayOptions } from './replay';
+export type { Spec as TrackingModuleSpec } from './NativeRnVietmapTrackingPlugin';
+
 // Export types
 export type {
   LocationTrackingConfig,
   LocationData,
+  RecordedLocation,
+  Stop,
+  StopCallback,
+  SessionStats,
+  SessionSplit,
   TrackingStatus,
+  TrackingConfigUpdateResult,
   LocationUpdateCallback,
   TrackingStatusCallback,
+  LocationErrorCallback,
+  PermissionChangeCallback,
+  RouteUpdateCallback,
+  LocationErrorEvent,
+  PermissionChangeEvent,
+  RouteUpdateEvent,
+  PermissionResult,
+  RouteLink,
+  RouteAlert,
+  ProcessedRouteData,
+  NearestAlertResult,
+  SpeedViolationResult,
+  SpeedViolationEvent,
+  SpeedViolationCallback,
 };
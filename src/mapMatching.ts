@@ -0,0 +1,385 @@
+import type { LocationData, ProcessedRouteData, RouteLink } from './types';
+import { LINK_DIRECTION } from './constants';
+import type { TrackingEventSource, TrackingSubscription } from './backend';
+import { getTrackingEvents } from './backend';
+import { LocationUtils } from './utils';
+import { bearingDifference, projectOntoSegment } from './geometry';
+import { getLinkHeadings } from './route';
+
+/**
+ * Options for MapMatcher
+ */
+export interface MapMatcherOptions {
+  /** Route whose links are matched against (can be replaced later with setRoute) */
+  route?: ProcessedRouteData;
+  /** Links farther away than this are not candidates in meters (default: 50) */
+  searchRadius?: number;
+  /** Standard deviation of GPS position error in meters; the fix accuracy is used when larger (default: 10) */
+  gpsSigma?: number;
+  /** Standard deviation of the bearing against the link heading in degrees (default: 30) */
+  bearingSigma?: number;
+  /** Speed below which the bearing is ignored as unreliable in m/s (default: 1) */
+  minSpeedForBearing?: number;
+  /**
+   * Scale of the allowed difference between straight-line and along-road distance of consecutive
+   * fixes in meters (default: 10)
+   */
+  transitionBeta?: number;
+}
+
+/**
+ * Result of matching one fix onto the route
+ */
+export interface MapMatchResult {
+  /** Whether a link was found within the search radius */
+  matched: boolean;
+  /** Id of the matched link (null when unmatched) */
+  linkId: number | null;
+  /** Index of the matched link in route.links (-1 when unmatched) */
+  linkIndex: number;
+  /** Matched position on the link (the raw fix when unmatched) */
+  latitude: number;
+  longitude: number;
+  /** Distance along the link from its start in meters */
+  offset: number;
+  /** Distance between the fix and the matched position in meters */
+  distance: number;
+  /** Probability of the matched link among all candidates (0-1) */
+  confidence: number;
+  /** Fix that was matched */
+  location: LocationData;
+}
+
+export type MapMatchCallback = (result: MapMatchResult) => void;
+
+interface Candidate {
+  linkIndex: number;
+  latitude: number;
+  longitude: number;
+  offset: number;
+  distance: number;
+  score: number;
+}
+
+interface GraphEdge {
+  linkIndex: number;
+  /** Node reached at the other end of the link */
+  to: string;
+}
+
+interface RouteGraph {
+  lengths: number[];
+  edges: Map<string, GraphEdge[]>;
+}
+
+function nodeKey(latitude: number, longitude: number): string {
+  // ~1 m grid: links of one route share endpoint coordinates
+  return `${latitude.toFixed(5)},${longitude.toFixed(5)}`;
+}
+
+function canTravel(link: RouteLink, forward: boolean): boolean {
+  // Only the one-way codes restrict travel; anything else is a two-way road
+  return link.direction !== (forward ? LINK_DIRECTION.BACKWARD : LINK_DIRECTION.FORWARD);
+}
+
+function buildGraph(route: ProcessedRouteData): RouteGraph {
+  const edges = new Map<string, GraphEdge[]>();
+  const addEdge = (from: string, edge: GraphEdge) => {
+    const list = edges.get(from) ?? [];
+    list.push(edge);
+    edges.set(from, list);
+  };
+
+  const lengths = route.links.map((link, linkIndex) => {
+    const start = nodeKey(link.startLat, link.startLon);
+    const end = nodeKey(link.endLat, link.endLon);
+    if (canTravel(link, true)) {
+      addEdge(start, { linkIndex, to: end });
+    }
+    if (canTravel(link, false)) {
+      addEdge(end, { linkIndex, to: start });
+    }
+    return LocationUtils.calculateDistance(link.startLat, link.startLon, link.endLat, link.endLon);
+  });
+
+  return { lengths, edges };
+}
+
+/**
+ * Online hidden Markov model map matcher over RouteLink segments.
+ * Candidates are the links within the search radius; each is scored by its distance to the fix,
+ * the bearing against the link's allowed travel directions, and how well the along-road distance
+ * from the previous candidates agrees with the straight-line distance between fixes.
+ * Unlike a nearest-link lookup this keeps to the connected road at parallel roads and flyovers.
+ */
+export class MapMatcher {
+  private readonly searchRadius: number;
+  private readonly gpsSigma: number;
+  private readonly bearingSigma: number;
+  private readonly minSpeedForBearing: number;
+  private readonly transitionBeta: number;
+
+  private route: ProcessedRouteData | null = null;
+  private graph: RouteGraph = { lengths: [], edges: new Map() };
+  private candidates: Candidate[] = [];
+  private previous: LocationData | null = null;
+  private lastResult: MapMatchResult | null = null;
+  private listeners = new Set<MapMatchCallback>();
+  private subscription: TrackingSubscription | null = null;
+
+  constructor(options: MapMatcherOptions = {}) {
+    this.searchRadius = options.searchRadius ?? 50;
+    this.gpsSigma = options.gpsSigma ?? 10;
+    this.bearingSigma = options.bearingSigma ?? 30;
+    this.minSpeedForBearing = options.minSpeedForBearing ?? 1;
+    this.transitionBeta = options.transitionBeta ?? 10;
+    this.setRoute(options.route ?? null);
+  }
+
+  /**
+   * Replace the route and restart matching
+   * @param route - Route data from processRouteData, or null to stop matching
+   */
+  setRoute(route: ProcessedRouteData | null): void {
+    this.route = route;
+    this.graph = route ? buildGraph(route) : { lengths: [], edges: new Map() };
+    this.reset();
+  }
+
+  /**
+   * Subscribe to match results
+   * @param callback - Callback function to receive a result per fix
+   * @returns Subscription object with remove method
+   */
+  addListener(callback: MapMatchCallback): TrackingSubscription {
+    this.listeners.add(callback);
+    return {
+      remove: () => {
+        this.listeners.delete(callback);
+      }
+    };
+  }
+
+  /**
+   * Start consuming onLocationUpdate events
+   * @param source - Event source (default: active tracking backend)
+   */
+  start(source: TrackingEventSource = getTrackingEvents()): void {
+    this.stop();
+    this.subscription = source.addListener('onLocationUpdate', location => this.processLocation(location));
+  }
+
+  /**
+   * Stop consuming location events
+   */
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+
+  /**
+   * Result for the most recent fix
+   */
+  getLastResult(): MapMatchResult | null {
+    return this.lastResult;
+  }
+
+  /**
+   * Match a fix, continuing from the previous fixes
+   * @param location - New location in chronological order
+   * @returns Match result (also emitted to listeners)
+   */
+  processLocation(location: LocationData): MapMatchResult {
+    const candidates = this.findCandidates(location);
+    const previous = this.previous;
+    this.previous = location;
+
+    if (candidates.length > 0 && previous && this.candidates.length > 0) {
+      const straightDistance = LocationUtils.calculateDistance(
+        previous.latitude, previous.longitude,
+        location.latitude, location.longitude
+      );
+      const limit = straightDistance * 2 + 2 * this.searchRadius;
+      const transitions = this.candidates.map(from => ({ from, distances: this.routeDistances(from, limit) }));
+
+      const scored = candidates.map(candidate => {
+        let best = -Infinity;
+        for (const { from, distances } of transitions) {
+          const routeDistance = this.routeDistanceTo(from, candidate, distances);
+          if (routeDistance !== Infinity) {
+            best = Math.max(best, from.score - Math.abs(straightDistance - routeDistance) / this.transitionBeta);
+          }
+        }
+        return best + candidate.score;
+      });
+      // When no candidate is reachable the chain restarts from emissions alone
+      if (scored.some(score => score > -Infinity)) {
+        candidates.forEach((candidate, index) => {
+          candidate.score = scored[index]!;
+        });
+      }
+    }
+
+    this.candidates = candidates;
+    return this.emit(this.resolve(location, candidates));
+  }
+
+  /**
+   * Forget previous fixes (the next fix is matched on its own)
+   */
+  reset(): void {
+    this.candidates = [];
+    this.previous = null;
+    this.lastResult = null;
+  }
+
+  /**
+   * Links within the search radius, scored by distance and bearing (log-likelihood)
+   */
+  private findCandidates(location: LocationData): Candidate[] {
+    if (!this.route) {
+      return [];
+    }
+
+    const sigma = Math.max(this.gpsSigma, location.accuracy > 0 ? location.accuracy : 0);
+    const useBearing = location.bearing >= 0 &&
+      (location.speed < 0 || location.speed >= this.minSpeedForBearing);
+
+    const candidates: Candidate[] = [];
+    this.route.links.forEach((link, linkIndex) => {
+      const projection = projectOntoSegment(
+        location.latitude, location.longitude,
+        link.startLat, link.startLon,
+        link.endLat, link.endLon
+      );
+      if (projection.distance > this.searchRadius) {
+        return;
+      }
+
+      let score = -0.5 * (projection.distance / sigma) ** 2;
+      if (useBearing) {
+        const difference = Math.min(...getLinkHeadings(link).map(heading => bearingDifference(heading, location.bearing)));
+        score -= 0.5 * (difference / this.bearingSigma) ** 2;
+      }
+
+      candidates.push({
+        linkIndex,
+        latitude: projection.latitude,
+        longitude: projection.longitude,
+        offset: projection.fraction * this.graph.lengths[linkIndex]!,
+        distance: projection.distance,
+        score
+      });
+    });
+    return candidates;
+  }
+
+  /**
+   * Shortest along-road distances from a candidate to every node within the limit (Dijkstra)
+   */
+  private routeDistances(from: Candidate, limit: number): Map<string, number> {
+    const link = this.route!.links[from.linkIndex]!;
+    const length = this.graph.lengths[from.linkIndex]!;
+    const distances = new Map<string, number>();
+    const frontier: Array<{ node: string; distance: number }> = [];
+
+    if (canTravel(link, true)) {
+      frontier.push({ node: nodeKey(link.endLat, link.endLon), distance: length - from.offset });
+    }
+    if (canTravel(link, false)) {
+      frontier.push({ node: nodeKey(link.startLat, link.startLon), distance: from.offset });
+    }
+
+    while (frontier.length > 0) {
+      let nearest = 0;
+      frontier.forEach((entry, index) => {
+        if (entry.distance < frontier[nearest]!.distance) {
+          nearest = index;
+        }
+      });
+      const { node, distance } = frontier.splice(nearest, 1)[0]!;
+      if (distances.has(node) || distance > limit) {
+        continue;
+      }
+      distances.set(node, distance);
+
+      for (const edge of this.graph.edges.get(node) ?? []) {
+        if (!distances.has(edge.to)) {
+          frontier.push({ node: edge.to, distance: distance + this.graph.lengths[edge.linkIndex]! });
+        }
+      }
+    }
+    return distances;
+  }
+
+  /**
+   * Along-road distance between two candidates, Infinity if unreachable
+   */
+  private routeDistanceTo(from: Candidate, to: Candidate, distances: Map<string, number>): number {
+    const link = this.route!.links[to.linkIndex]!;
+    let best = Infinity;
+
+    if (from.linkIndex === to.linkIndex) {
+      const delta = to.offset - from.offset;
+      // Going backwards on a one-way link is only GPS noise when it is small
+      if (canTravel(link, delta >= 0) || Math.abs(delta) <= this.gpsSigma) {
+        best = Math.abs(delta);
+      }
+    }
+
+    const length = this.graph.lengths[to.linkIndex]!;
+    const startDistance = distances.get(nodeKey(link.startLat, link.startLon));
+    const endDistance = distances.get(nodeKey(link.endLat, link.endLon));
+    if (startDistance !== undefined && canTravel(link, true)) {
+      best = Math.min(best, startDistance + to.offset);
+    }
+    if (endDistance !== undefined && canTravel(link, false)) {
+      best = Math.min(best, endDistance + length - to.offset);
+    }
+    return best;
+  }
+
+  private resolve(location: LocationData, candidates: Candidate[]): MapMatchResult {
+    if (candidates.length === 0) {
+      // Lost the road: the next fix starts a new chain
+      this.previous = null;
+      return {
+        matched: false,
+        linkId: null,
+        linkIndex: -1,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        offset: 0,
+        distance: 0,
+        confidence: 0,
+        location
+      };
+    }
+
+    const best = candidates.reduce((top, candidate) => (candidate.score > top.score ? candidate : top));
+    // Normalize so scores stay bounded over long drives
+    const maxScore = best.score;
+    candidates.forEach(candidate => {
+      candidate.score -= maxScore;
+    });
+    const total = candidates.reduce((sum, candidate) => sum + Math.exp(candidate.score), 0);
+
+    return {
+      matched: true,
+      linkId: this.route!.links[best.linkIndex]!.id,
+      linkIndex: best.linkIndex,
+      latitude: best.latitude,
+      longitude: best.longitude,
+      offset: best.offset,
+      distance: best.distance,
+      confidence: 1 / total,
+      location
+    };
+  }
+
+  private emit(result: MapMatchResult): MapMatchResult {
+    this.lastResult = result;
+    this.listeners.forEach(listener => listener(result));
+    return result;
+  }
+}
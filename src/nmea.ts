@@ -0,0 +1,590 @@
+import type { LocationData } from './types';
+import { NMEA_FIX_QUALITY, NMEA_FIX_QUALITY_ACCURACY } from './constants';
+import type { TrackingSubscription } from './backend';
+import { toLocationData } from './simulator';
+
+const KNOTS_TO_MPS = 1852 / 3600;
+const MS_PER_DAY = 86400000;
+
+/**
+ * GGA: time, position and fix data
+ */
+export interface GGASentence {
+  type: 'GGA';
+  /** Talker id, e.g. 'GP' (GPS) or 'GN' (multi-constellation) */
+  talker: string;
+  /** UTC time of day in ms */
+  time: number;
+  latitude?: number;
+  longitude?: number;
+  /** Fix quality from NMEA_FIX_QUALITY */
+  fixQuality: number;
+  satellites?: number;
+  hdop?: number;
+  /** Altitude above mean sea level in meters */
+  altitude?: number;
+}
+
+/**
+ * RMC: recommended minimum position, velocity and date
+ */
+export interface RMCSentence {
+  type: 'RMC';
+  talker: string;
+  /** UTC time of day in ms */
+  time: number;
+  /** UTC midnight of the fix date in ms */
+  date?: number;
+  /** False for status 'V' or mode 'N' */
+  valid: boolean;
+  latitude?: number;
+  longitude?: number;
+  /** Speed over ground in m/s */
+  speed?: number;
+  /** Course over ground in degrees true */
+  course?: number;
+  /** Fix quality implied by the mode indicator (NMEA 2.3+) */
+  fixQuality?: number;
+}
+
+/**
+ * VTG: course and speed over ground
+ */
+export interface VTGSentence {
+  type: 'VTG';
+  talker: string;
+  /** Course over ground in degrees true */
+  course?: number;
+  /** Speed over ground in m/s */
+  speed?: number;
+}
+
+/**
+ * GSA: dilution of precision and active satellites
+ */
+export interface GSASentence {
+  type: 'GSA';
+  talker: string;
+  /** 1 = no fix, 2 = 2D, 3 = 3D */
+  fixType: number;
+  /** PRNs of the satellites used in the fix */
+  satellites: number[];
+  pdop?: number;
+  hdop?: number;
+  vdop?: number;
+}
+
+export type NMEASentence = GGASentence | RMCSentence | VTGSentence | GSASentence;
+
+/**
+ * Why NMEAParser dropped a sentence
+ */
+export type NMEARejectReason = 'checksum' | 'malformed';
+
+/**
+ * Options for NMEAParser
+ */
+export interface NMEAParserOptions {
+  /** UTC date used until an RMC sentence provides one (default: today) */
+  date?: Date | number;
+  /** Drop sentences without a checksum (default: false) */
+  requireChecksum?: boolean;
+  /** Called for sentences with a bad checksum or unreadable fields */
+  onRejected?: (sentence: string, reason: NMEARejectReason) => void;
+}
+
+/**
+ * Options for formatGGA, formatRMC and toNMEA
+ */
+export interface NMEAFormatOptions {
+  /** Talker id (default: 'GP') */
+  talker?: string;
+  /** Fix quality from NMEA_FIX_QUALITY (default: GPS) */
+  fixQuality?: number;
+  /** Satellites in use (default: 8) */
+  satellites?: number;
+  /** HDOP (default: derived from accuracy and fix quality) */
+  hdop?: number;
+}
+
+/** RMC/GGA mode indicator to fix quality */
+const MODE_FIX_QUALITY: Record<string, number> = {
+  A: NMEA_FIX_QUALITY.GPS,
+  D: NMEA_FIX_QUALITY.DGPS,
+  P: NMEA_FIX_QUALITY.PPS,
+  R: NMEA_FIX_QUALITY.RTK_FIXED,
+  F: NMEA_FIX_QUALITY.RTK_FLOAT,
+  E: NMEA_FIX_QUALITY.ESTIMATED,
+  M: NMEA_FIX_QUALITY.MANUAL,
+  S: NMEA_FIX_QUALITY.SIMULATION,
+  N: NMEA_FIX_QUALITY.INVALID
+};
+
+/**
+ * Compute the checksum of a sentence body (the characters between '$' and '*')
+ * @param body - Sentence without '$', '*' and checksum
+ * @returns Two-digit uppercase hex checksum
+ */
+export function computeNMEAChecksum(body: string): string {
+  let checksum = 0;
+  for (let i = 0; i < body.length; i++) {
+    checksum ^= body.charCodeAt(i);
+  }
+  return checksum.toString(16).toUpperCase().padStart(2, '0');
+}
+
+/**
+ * Check the '*hh' checksum of a sentence
+ * @param sentence - Full sentence, e.g. '$GPGGA,...*47'
+ * @returns False if the checksum is missing or does not match
+ */
+export function validateNMEAChecksum(sentence: string): boolean {
+  const match = /^\$([^*]*)\*([0-9A-Fa-f]{2})$/.exec(sentence.trim());
+  return match !== null && computeNMEAChecksum(match[1]!) === match[2]!.toUpperCase();
+}
+
+function readNumber(field: string | undefined): number | undefined {
+  if (field === undefined || field === '') {
+    return undefined;
+  }
+  const value = Number(field);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Read ddmm.mmmm / dddmm.mmmm with its hemisphere into signed decimal degrees
+ */
+function readCoordinate(value: string | undefined, hemisphere: string | undefined): number | undefined {
+  const raw = readNumber(value);
+  if (raw === undefined) {
+    return undefined;
+  }
+  const degrees = Math.floor(raw / 100);
+  const decimal = degrees + (raw - degrees * 100) / 60;
+  return hemisphere === 'S' || hemisphere === 'W' ? -decimal : decimal;
+}
+
+/**
+ * Read hhmmss.sss into ms since UTC midnight
+ */
+function readTime(field: string | undefined): number | undefined {
+  if (!field || !/^\d{6}(\.\d+)?$/.test(field)) {
+    return undefined;
+  }
+  const hours = Number(field.slice(0, 2));
+  const minutes = Number(field.slice(2, 4));
+  const seconds = Number(field.slice(4));
+  return Math.round(((hours * 60 + minutes) * 60 + seconds) * 1000);
+}
+
+/**
+ * Read ddmmyy into UTC midnight in ms
+ */
+function readDate(field: string | undefined): number | undefined {
+  if (!field || !/^\d{6}$/.test(field)) {
+    return undefined;
+  }
+  const year = Number(field.slice(4, 6));
+  return Date.UTC(year < 80 ? 2000 + year : 1900 + year, Number(field.slice(2, 4)) - 1, Number(field.slice(0, 2)));
+}
+
+type DecodeResult = NMEASentence | NMEARejectReason | null;
+
+function decodeSentence(sentence: string, requireChecksum: boolean): DecodeResult {
+  const trimmed = sentence.trim();
+  if (!trimmed.startsWith('$')) {
+    return 'malformed';
+  }
+
+  const star = trimmed.indexOf('*');
+  if (star === -1 ? requireChecksum : !validateNMEAChecksum(trimmed)) {
+    return 'checksum';
+  }
+
+  const fields = trimmed.slice(1, star === -1 ? undefined : star).split(',');
+  const address = fields[0]!;
+  // Proprietary sentences ($P...) carry no standard talker/type pair
+  if (address.length !== 5 || address.startsWith('P')) {
+    return null;
+  }
+  const talker = address.slice(0, 2);
+
+  switch (address.slice(2)) {
+    case 'GGA': {
+      const time = readTime(fields[1]);
+      const fixQuality = readNumber(fields[6]);
+      if (time === undefined || fixQuality === undefined) {
+        return 'malformed';
+      }
+      return {
+        type: 'GGA',
+        talker,
+        time,
+        latitude: readCoordinate(fields[2], fields[3]),
+        longitude: readCoordinate(fields[4], fields[5]),
+        fixQuality,
+        satellites: readNumber(fields[7]),
+        hdop: readNumber(fields[8]),
+        altitude: readNumber(fields[9])
+      };
+    }
+    case 'RMC': {
+      const time = readTime(fields[1]);
+      if (time === undefined || (fields[2] !== 'A' && fields[2] !== 'V')) {
+        return 'malformed';
+      }
+      const speed = readNumber(fields[7]);
+      const fixQuality = fields[12] ? MODE_FIX_QUALITY[fields[12]] : undefined;
+      return {
+        type: 'RMC',
+        talker,
+        time,
+        date: readDate(fields[9]),
+        valid: fields[2] === 'A' && fixQuality !== NMEA_FIX_QUALITY.INVALID,
+        latitude: readCoordinate(fields[3], fields[4]),
+        longitude: readCoordinate(fields[5], fields[6]),
+        speed: speed === undefined ? undefined : speed * KNOTS_TO_MPS,
+        course: readNumber(fields[8]),
+        fixQuality
+      };
+    }
+    case 'VTG': {
+      const knots = readNumber(fields[5]);
+      const kmh = readNumber(fields[7]);
+      return {
+        type: 'VTG',
+        talker,
+        course: readNumber(fields[1]),
+        speed: kmh !== undefined ? kmh / 3.6 : knots !== undefined ? knots * KNOTS_TO_MPS : undefined
+      };
+    }
+    case 'GSA': {
+      const fixType = readNumber(fields[2]);
+      if (fixType === undefined) {
+        return 'malformed';
+      }
+      return {
+        type: 'GSA',
+        talker,
+        fixType,
+        satellites: fields.slice(3, 15).map(readNumber).filter((prn): prn is number => prn !== undefined),
+        pdop: readNumber(fields[15]),
+        hdop: readNumber(fields[16]),
+        vdop: readNumber(fields[17])
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse one GGA, RMC, VTG or GSA sentence
+ * @param sentence - Full sentence; the checksum is verified when present
+ * @returns Decoded sentence, or null if unsupported, malformed or the checksum does not match
+ */
+export function parseNMEASentence(sentence: string): NMEASentence | null {
+  const result = decodeSentence(sentence, false);
+  return typeof result === 'string' ? null : result;
+}
+
+/**
+ * Sentences sharing one UTC time
+ */
+interface Epoch {
+  time?: number;
+  date?: number;
+  valid: boolean;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+  speed?: number;
+  course?: number;
+  fixQuality?: number;
+  hdop?: number;
+}
+
+/**
+ * Combines the sentences of each fix into LocationData.
+ * Sentences with the same UTC time form one fix, which is emitted once a sentence with a new time
+ * arrives (or on flush). Accuracy is HDOP times the accuracy of the fix quality
+ * (see NMEA_FIX_QUALITY_ACCURACY); speed and bearing missing from RMC/VTG are derived from the previous fix.
+ */
+export class NMEAParser {
+  private readonly requireChecksum: boolean;
+  private readonly onRejected?: (sentence: string, reason: NMEARejectReason) => void;
+  private readonly initialDate: number;
+
+  private date: number;
+  private lastTime: number | null = null;
+  private epoch: Epoch | null = null;
+  private previous: LocationData | null = null;
+  private buffer: string = '';
+  private listeners = new Set<(location: LocationData) => void>();
+
+  constructor(options: NMEAParserOptions = {}) {
+    this.requireChecksum = options.requireChecksum ?? false;
+    this.onRejected = options.onRejected;
+    const date = new Date(options.date ?? Date.now());
+    this.initialDate = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+    this.date = this.initialDate;
+  }
+
+  /**
+   * Subscribe to parsed locations
+   * @param callback - Callback function to receive locations
+   * @returns Subscription object with remove method
+   */
+  addListener(callback: (location: LocationData) => void): TrackingSubscription {
+    this.listeners.add(callback);
+    return {
+      remove: () => {
+        this.listeners.delete(callback);
+      }
+    };
+  }
+
+  /**
+   * Feed raw receiver output; incomplete trailing lines are kept until the next chunk
+   * @param chunk - One or more CRLF/LF separated sentences
+   * @returns Locations completed by this chunk
+   */
+  write(chunk: string): LocationData[] {
+    const lines = (this.buffer + chunk).split(/\r?\n/);
+    this.buffer = lines.pop() ?? '';
+
+    const locations: LocationData[] = [];
+    for (const line of lines) {
+      const location = this.push(line);
+      if (location) {
+        locations.push(location);
+      }
+    }
+    return locations;
+  }
+
+  /**
+   * Feed one complete sentence
+   * @param sentence - NMEA sentence
+   * @returns Location of the previous fix if this sentence started a new one
+   */
+  push(sentence: string): LocationData | null {
+    if (sentence.trim() === '') {
+      return null;
+    }
+
+    const decoded = decodeSentence(sentence, this.requireChecksum);
+    if (typeof decoded === 'string') {
+      this.onRejected?.(sentence, decoded);
+      return null;
+    }
+    if (!decoded) {
+      return null;
+    }
+
+    let completed: LocationData | null = null;
+    if (decoded.type === 'GGA' || decoded.type === 'RMC') {
+      if (this.epoch?.time !== undefined && this.epoch.time !== decoded.time) {
+        completed = this.completeEpoch();
+      }
+    }
+
+    const epoch = this.epoch ?? { valid: true };
+    this.epoch = epoch;
+    switch (decoded.type) {
+      case 'GGA':
+        epoch.time = decoded.time;
+        epoch.valid = epoch.valid && decoded.fixQuality !== NMEA_FIX_QUALITY.INVALID;
+        epoch.latitude = decoded.latitude ?? epoch.latitude;
+        epoch.longitude = decoded.longitude ?? epoch.longitude;
+        epoch.altitude = decoded.altitude;
+        epoch.fixQuality = decoded.fixQuality;
+        epoch.hdop = decoded.hdop ?? epoch.hdop;
+        break;
+      case 'RMC':
+        epoch.time = decoded.time;
+        epoch.date = decoded.date;
+        epoch.valid = epoch.valid && decoded.valid;
+        epoch.latitude = epoch.latitude ?? decoded.latitude;
+        epoch.longitude = epoch.longitude ?? decoded.longitude;
+        epoch.speed = decoded.speed ?? epoch.speed;
+        epoch.course = decoded.course ?? epoch.course;
+        // GGA reports the fix quality directly; the RMC mode is only a fallback
+        epoch.fixQuality = epoch.fixQuality ?? decoded.fixQuality;
+        break;
+      case 'VTG':
+        epoch.speed = epoch.speed ?? decoded.speed;
+        epoch.course = epoch.course ?? decoded.course;
+        break;
+      case 'GSA':
+        epoch.valid = epoch.valid && decoded.fixType > 1;
+        epoch.hdop = epoch.hdop ?? decoded.hdop;
+        break;
+    }
+    return completed;
+  }
+
+  /**
+   * Emit the fix still being assembled (call at the end of a log)
+   * @returns Location, or null if there is no valid pending fix
+   */
+  flush(): LocationData | null {
+    return this.completeEpoch();
+  }
+
+  /**
+   * Forget the pending fix, buffered input and date
+   */
+  reset(): void {
+    this.date = this.initialDate;
+    this.lastTime = null;
+    this.epoch = null;
+    this.previous = null;
+    this.buffer = '';
+  }
+
+  private completeEpoch(): LocationData | null {
+    const epoch = this.epoch;
+    this.epoch = null;
+    if (!epoch || epoch.time === undefined) {
+      return null;
+    }
+
+    if (epoch.date !== undefined) {
+      this.date = epoch.date;
+    } else if (this.lastTime !== null && epoch.time < this.lastTime - MS_PER_DAY / 2) {
+      // Midnight passed without an RMC date
+      this.date += MS_PER_DAY;
+    }
+    this.lastTime = epoch.time;
+
+    if (!epoch.valid || epoch.latitude === undefined || epoch.longitude === undefined) {
+      return null;
+    }
+
+    const fixQuality = epoch.fixQuality ?? NMEA_FIX_QUALITY.GPS;
+    const location = toLocationData({
+      latitude: epoch.latitude,
+      longitude: epoch.longitude,
+      altitude: epoch.altitude,
+      accuracy: (NMEA_FIX_QUALITY_ACCURACY[fixQuality] ?? NMEA_FIX_QUALITY_ACCURACY[NMEA_FIX_QUALITY.GPS]!) *
+        (epoch.hdop ?? 1),
+      speed: epoch.speed,
+      bearing: epoch.course,
+      timestamp: this.date + epoch.time
+    }, this.previous);
+
+    this.previous = location;
+    this.listeners.forEach(listener => listener(location));
+    return location;
+  }
+}
+
+/**
+ * Parse an NMEA log into locations
+ * @param log - Receiver output, one sentence per line
+ * @param options - Parser options
+ * @returns Locations in log order
+ */
+export function parseNMEA(log: string, options: NMEAParserOptions = {}): LocationData[] {
+  const parser = new NMEAParser(options);
+  const locations = parser.write(`${log}\n`);
+  const last = parser.flush();
+  if (last) {
+    locations.push(last);
+  }
+  return locations;
+}
+
+function formatCoordinate(value: number, degreeDigits: number, hemispheres: [string, string]): string {
+  const absolute = Math.abs(value);
+  let degrees = Math.floor(absolute);
+  let minutes = Number(((absolute - degrees) * 60).toFixed(5));
+  if (minutes >= 60) {
+    degrees += 1;
+    minutes = 0;
+  }
+  const field = `${String(degrees).padStart(degreeDigits, '0')}${minutes.toFixed(5).padStart(8, '0')}`;
+  return `${field},${value < 0 ? hemispheres[1] : hemispheres[0]}`;
+}
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const hundredths = Math.floor(date.getUTCMilliseconds() / 10);
+  return `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}.${pad(hundredths)}`;
+}
+
+function formatDate(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${pad(date.getUTCDate())}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCFullYear() % 100)}`;
+}
+
+function toSentence(fields: string[]): string {
+  const body = fields.join(',');
+  return `$${body}*${computeNMEAChecksum(body)}`;
+}
+
+/**
+ * Format a location as a GGA sentence
+ * @param location - Location to encode
+ * @param options - Talker, fix quality, satellites and HDOP
+ * @returns Sentence with checksum (no line terminator)
+ */
+export function formatGGA(location: LocationData, options: NMEAFormatOptions = {}): string {
+  const fixQuality = options.fixQuality ?? NMEA_FIX_QUALITY.GPS;
+  const baseAccuracy = NMEA_FIX_QUALITY_ACCURACY[fixQuality] ?? NMEA_FIX_QUALITY_ACCURACY[NMEA_FIX_QUALITY.GPS]!;
+  const hdop = options.hdop ?? Math.max(0.1, location.accuracy / baseAccuracy);
+
+  return toSentence([
+    `${options.talker ?? 'GP'}GGA`,
+    formatTime(location.timestamp),
+    formatCoordinate(location.latitude, 2, ['N', 'S']),
+    formatCoordinate(location.longitude, 3, ['E', 'W']),
+    String(fixQuality),
+    String(options.satellites ?? 8).padStart(2, '0'),
+    hdop.toFixed(1),
+    location.altitude.toFixed(1),
+    'M',
+    '',
+    'M',
+    '',
+    ''
+  ]);
+}
+
+/**
+ * Format a location as an RMC sentence (NMEA 2.3, with mode indicator)
+ * @param location - Location to encode
+ * @param options - Talker and fix quality
+ * @returns Sentence with checksum (no line terminator)
+ */
+export function formatRMC(location: LocationData, options: NMEAFormatOptions = {}): string {
+  const fixQuality = options.fixQuality ?? NMEA_FIX_QUALITY.GPS;
+  const mode = Object.keys(MODE_FIX_QUALITY).find(key => MODE_FIX_QUALITY[key] === fixQuality) ?? 'A';
+
+  return toSentence([
+    `${options.talker ?? 'GP'}RMC`,
+    formatTime(location.timestamp),
+    mode === 'N' ? 'V' : 'A',
+    formatCoordinate(location.latitude, 2, ['N', 'S']),
+    formatCoordinate(location.longitude, 3, ['E', 'W']),
+    (Math.max(0, location.speed) / KNOTS_TO_MPS).toFixed(2),
+    Math.max(0, location.bearing).toFixed(1),
+    formatDate(location.timestamp),
+    '',
+    '',
+    mode
+  ]);
+}
+
+/**
+ * Format a location as the GGA and RMC sentences a receiver would output for it
+ * @param location - Location to encode
+ * @param options - Talker, fix quality, satellites and HDOP
+ * @returns [GGA, RMC] sentences
+ */
+export function toNMEA(location: LocationData, options: NMEAFormatOptions = {}): string[] {
+  return [formatGGA(location, options), formatRMC(location, options)];
+}
@@ -0,0 +1,238 @@
+import type { LocationData, ProcessedRouteData } from './types';
+import type { TrackingEventSource, TrackingSubscription } from './backend';
+import { getTrackingEvents } from './backend';
+import { projectOntoSegment } from './geometry';
+
+/**
+ * Options for OffRouteDetector
+ */
+export interface OffRouteDetectorOptions {
+  /** Planned route (can be replaced later with setRoute) */
+  route?: ProcessedRouteData;
+  /** Allowed cross-track distance on either side of the route in meters (default: 30) */
+  corridorWidth?: number;
+  /** Consecutive fixes outside the corridor before offRoute fires (default: 3) */
+  offRouteFixes?: number;
+  /** Consecutive fixes inside the corridor before backOnRoute fires (default: 2) */
+  onRouteFixes?: number;
+}
+
+/**
+ * Closest point on the route to a location
+ */
+export interface RejoinPoint {
+  latitude: number;
+  longitude: number;
+  /** Index of the link in route.links */
+  linkIndex: number;
+  linkId: number;
+  /** Distance from the location in meters */
+  distance: number;
+}
+
+export interface OffRouteEvent {
+  type: 'offRoute' | 'backOnRoute';
+  /** Fix that triggered the event */
+  location: LocationData;
+  /** Cross-track distance of the fix in meters */
+  distanceFromRoute: number;
+  /**
+   * Closest route point at or after the last link driven on, so the driver is not sent back
+   * along the part already covered
+   */
+  rejoinPoint: RejoinPoint;
+  /** Time the driver left the route (ms) */
+  offRouteSince: number;
+}
+
+export type OffRouteCallback = (event: OffRouteEvent) => void;
+
+/**
+ * Detects leaving and rejoining a planned route from the cross-track distance of each fix.
+ * A fix only counts once several consecutive fixes agree, so single GPS spikes are ignored.
+ */
+export class OffRouteDetector {
+  private route: ProcessedRouteData | null;
+  private readonly corridorWidth: number;
+  private readonly offRouteFixes: number;
+  private readonly onRouteFixes: number;
+
+  private offRoute: boolean = false;
+  private offRouteSince: number = 0;
+  private streak: number = 0;
+  private streakStart: number = 0;
+  private lastLinkIndex: number = 0;
+  private lastDistance: number | null = null;
+  private listeners = new Set<OffRouteCallback>();
+  private subscription: TrackingSubscription | null = null;
+
+  constructor(options: OffRouteDetectorOptions = {}) {
+    this.route = options.route ?? null;
+    this.corridorWidth = options.corridorWidth ?? 30;
+    this.offRouteFixes = Math.max(1, options.offRouteFixes ?? 3);
+    this.onRouteFixes = Math.max(1, options.onRouteFixes ?? 2);
+  }
+
+  /**
+   * Replace the route (e.g. after rerouting) and assume the driver is on it
+   * @param route - Route data from processRouteData, or null to stop checking
+   */
+  setRoute(route: ProcessedRouteData | null): void {
+    this.route = route;
+    this.reset();
+  }
+
+  /**
+   * Subscribe to offRoute/backOnRoute events
+   * @param callback - Callback function to receive events
+   * @returns Subscription object with remove method
+   */
+  addListener(callback: OffRouteCallback): TrackingSubscription {
+    this.listeners.add(callback);
+    return {
+      remove: () => {
+        this.listeners.delete(callback);
+      }
+    };
+  }
+
+  /**
+   * Start consuming onLocationUpdate events
+   * @param source - Event source (default: active tracking backend)
+   */
+  start(source: TrackingEventSource = getTrackingEvents()): void {
+    this.stop();
+    this.subscription = source.addListener('onLocationUpdate', location => this.processLocation(location));
+  }
+
+  /**
+   * Stop consuming location events
+   */
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+
+  /**
+   * Whether the driver is currently off the route
+   */
+  isOffRoute(): boolean {
+    return this.offRoute;
+  }
+
+  /**
+   * Cross-track distance of the most recent fix in meters (null before the first fix)
+   */
+  getDistanceFromRoute(): number | null {
+    return this.lastDistance;
+  }
+
+  /**
+   * Check a fix against the route corridor
+   * @param location - New location
+   * @returns Event triggered by this fix, if any
+   */
+  processLocation(location: LocationData): OffRouteEvent | null {
+    const nearest = this.findClosestPoint(location, 0);
+    if (!nearest) {
+      return null;
+    }
+    this.lastDistance = nearest.distance;
+
+    const outside = nearest.distance > this.corridorWidth;
+    // Progress only moves to the first link in the corridor from the current one, so a fix near a
+    // later part of a looping route does not skip the links in between
+    const ahead = outside ? null : this.findFirstPointWithin(location, this.lastLinkIndex, this.corridorWidth);
+    if (ahead && !this.offRoute) {
+      this.lastLinkIndex = ahead.linkIndex;
+    }
+
+    // Count consecutive fixes disagreeing with the current state
+    if (outside === this.offRoute) {
+      this.streak = 0;
+      return null;
+    }
+    if (this.streak === 0) {
+      this.streakStart = location.timestamp;
+    }
+    this.streak++;
+    if (this.streak < (this.offRoute ? this.onRouteFixes : this.offRouteFixes)) {
+      return null;
+    }
+
+    this.streak = 0;
+    this.offRoute = outside;
+    if (outside) {
+      this.offRouteSince = this.streakStart;
+    } else if (ahead) {
+      this.lastLinkIndex = ahead.linkIndex;
+    }
+
+    const event: OffRouteEvent = {
+      type: outside ? 'offRoute' : 'backOnRoute',
+      location,
+      distanceFromRoute: nearest.distance,
+      rejoinPoint: outside ? this.findClosestPoint(location, this.lastLinkIndex)! : ahead ?? nearest,
+      offRouteSince: this.offRouteSince
+    };
+    this.listeners.forEach(listener => listener(event));
+    return event;
+  }
+
+  /**
+   * Forget the off-route state and progress
+   */
+  reset(): void {
+    this.offRoute = false;
+    this.offRouteSince = 0;
+    this.streak = 0;
+    this.streakStart = 0;
+    this.lastLinkIndex = 0;
+    this.lastDistance = null;
+  }
+
+  /**
+   * Closest point on the links from fromLinkIndex onwards
+   */
+  private findClosestPoint(location: LocationData, fromLinkIndex: number): RejoinPoint | null {
+    let closest: RejoinPoint | null = null;
+    const links = this.route?.links ?? [];
+    for (let linkIndex = fromLinkIndex; linkIndex < links.length; linkIndex++) {
+      const point = this.projectOntoLink(location, linkIndex);
+      if (!closest || point.distance < closest.distance) {
+        closest = point;
+      }
+    }
+    return closest;
+  }
+
+  /**
+   * First point within maxDistance on the links from fromLinkIndex onwards
+   */
+  private findFirstPointWithin(location: LocationData, fromLinkIndex: number, maxDistance: number): RejoinPoint | null {
+    const links = this.route?.links ?? [];
+    for (let linkIndex = fromLinkIndex; linkIndex < links.length; linkIndex++) {
+      const point = this.projectOntoLink(location, linkIndex);
+      if (point.distance <= maxDistance) {
+        return point;
+      }
+    }
+    return null;
+  }
+
+  private projectOntoLink(location: LocationData, linkIndex: number): RejoinPoint {
+    const link = this.route!.links[linkIndex]!;
+    const projection = projectOntoSegment(
+      location.latitude, location.longitude,
+      link.startLat, link.startLon,
+      link.endLat, link.endLon
+    );
+    return {
+      latitude: projection.latitude,
+      longitude: projection.longitude,
+      linkIndex,
+      linkId: link.id,
+      distance: projection.distance
+    };
+  }
+}
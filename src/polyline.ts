@@ -0,0 +1,192 @@
+import type { RecordedLocation } from './types';
+
+/**
+ * Decimal places kept per coordinate: 5 (~1 m, Google Maps) or 6 (~0.1 m, OSRM/Valhalla)
+ */
+export type PolylinePrecision = 5 | 6;
+
+/**
+ * Options for encodeTrack
+ */
+export interface EncodeTrackOptions {
+  /** Coordinate precision (default: 5) */
+  precision?: PolylinePrecision;
+  /** Also encode speed at 0.01 m/s resolution (default: true) */
+  includeSpeed?: boolean;
+}
+
+/** Header flag set when the extended track carries speeds */
+const SPEED_FLAG = 0x10;
+
+/**
+ * Append one signed integer as 5-bit chunks.
+ * Uses arithmetic instead of bitwise operators so timestamps beyond 32 bits survive.
+ */
+function encodeValue(value: number, output: string[]): void {
+  let remaining = value < 0 ? -2 * value - 1 : 2 * value;
+  while (remaining >= 0x20) {
+    output.push(String.fromCharCode((0x20 | (remaining % 0x20)) + 63));
+    remaining = Math.floor(remaining / 0x20);
+  }
+  output.push(String.fromCharCode(remaining + 63));
+}
+
+/**
+ * Read every signed integer of an encoded string
+ * @throws Error if the string contains invalid characters or ends mid-value
+ */
+function decodeValues(encoded: string): number[] {
+  const values: number[] = [];
+  let result = 0;
+  let factor = 1;
+  let inValue = false;
+
+  for (let i = 0; i < encoded.length; i++) {
+    const chunk = encoded.charCodeAt(i) - 63;
+    if (chunk < 0 || chunk > 0x3f) {
+      throw new Error(`Invalid encoded polyline: unexpected character '${encoded[i]}' at ${i}`);
+    }
+    result += (chunk % 0x20) * factor;
+    factor *= 0x20;
+    inValue = chunk >= 0x20;
+    if (!inValue) {
+      values.push(result % 2 === 1 ? -(result + 1) / 2 : result / 2);
+      result = 0;
+      factor = 1;
+    }
+  }
+
+  if (inValue) {
+    throw new Error('Invalid encoded polyline: truncated value');
+  }
+  return values;
+}
+
+function validPrecision(precision: number): PolylinePrecision {
+  if (precision !== 5 && precision !== 6) {
+    throw new Error(`Unsupported polyline precision ${precision} (expected 5 or 6)`);
+  }
+  return precision;
+}
+
+/**
+ * Delta-encode integer columns row by row
+ */
+function encodeRows(rows: number[][], output: string[]): void {
+  let previous: number[] = [];
+  for (const row of rows) {
+    row.forEach((value, column) => encodeValue(value - (previous[column] ?? 0), output));
+    previous = row;
+  }
+}
+
+/**
+ * Undo encodeRows for a fixed number of columns
+ */
+function decodeRows(values: number[], columns: number): number[][] {
+  if (values.length % columns !== 0) {
+    throw new Error(`Invalid encoded polyline: ${values.length} values do not form ${columns}-value points`);
+  }
+
+  const rows: number[][] = [];
+  let previous: number[] = new Array(columns).fill(0);
+  for (let i = 0; i < values.length; i += columns) {
+    const row = previous.map((value, column) => value + values[i + column]!);
+    rows.push(row);
+    previous = row;
+  }
+  return rows;
+}
+
+/**
+ * Encode coordinates in the Google encoded polyline format
+ * @param points - Coordinates, e.g. from TrackingSession.getHistory()
+ * @param precision - Decimal places (default: 5)
+ * @returns Encoded polyline
+ */
+export function encodePolyline(
+  points: Array<{ lat: number; lon: number }>,
+  precision: PolylinePrecision = 5
+): string {
+  const factor = 10 ** validPrecision(precision);
+  const output: string[] = [];
+  // Round absolute values before taking deltas so rounding errors do not accumulate
+  encodeRows(points.map(point => [Math.round(point.lat * factor), Math.round(point.lon * factor)]), output);
+  return output.join('');
+}
+
+/**
+ * Decode a Google encoded polyline
+ * @param encoded - Encoded polyline
+ * @param precision - Decimal places used when encoding (default: 5)
+ * @returns Coordinates
+ * @throws Error if the polyline is malformed
+ */
+export function decodePolyline(
+  encoded: string,
+  precision: PolylinePrecision = 5
+): Array<{ lat: number; lon: number }> {
+  const factor = 10 ** validPrecision(precision);
+  return decodeRows(decodeValues(encoded), 2).map(([lat, lon]) => ({
+    lat: lat! / factor,
+    lon: lon! / factor
+  }));
+}
+
+/**
+ * Encode locations with delta-encoded timestamps (ms) and optionally speeds.
+ * The output starts with a header value holding the precision and fields, so decodeTrack needs no options.
+ * Coordinates are rounded to the precision and speeds to 0.01 m/s; timestamps are lossless.
+ * @param locations - Recorded locations, e.g. from TrackingSession.getLocations()
+ * @param options - Precision and speed inclusion
+ * @returns Encoded track
+ */
+export function encodeTrack(locations: RecordedLocation[], options: EncodeTrackOptions = {}): string {
+  const precision = validPrecision(options.precision ?? 5);
+  const includeSpeed = options.includeSpeed ?? true;
+  const factor = 10 ** precision;
+
+  const output: string[] = [];
+  encodeValue(precision | (includeSpeed ? SPEED_FLAG : 0), output);
+  encodeRows(locations.map(location => {
+    const row = [
+      Math.round(location.latitude * factor),
+      Math.round(location.longitude * factor),
+      Math.round(location.timestamp)
+    ];
+    if (includeSpeed) {
+      // 0 marks a missing speed, so known speeds are shifted by one
+      const speed = location.speed;
+      row.push(speed === undefined || speed < 0 ? 0 : Math.round(speed * 100) + 1);
+    }
+    return row;
+  }), output);
+  return output.join('');
+}
+
+/**
+ * Decode a track produced by encodeTrack
+ * @param encoded - Encoded track
+ * @returns Locations with timestamps and, when encoded, speeds
+ * @throws Error if the track is malformed
+ */
+export function decodeTrack(encoded: string): RecordedLocation[] {
+  const [header, ...values] = decodeValues(encoded);
+  if (header === undefined) {
+    throw new Error('Invalid encoded track: missing header');
+  }
+
+  const includeSpeed = (header & SPEED_FLAG) !== 0;
+  const factor = 10 ** validPrecision(header & ~SPEED_FLAG);
+  return decodeRows(values, includeSpeed ? 4 : 3).map(([lat, lon, timestamp, speed]) => {
+    const location: RecordedLocation = {
+      latitude: lat! / factor,
+      longitude: lon! / factor,
+      timestamp: timestamp!
+    };
+    if (speed) {
+      location.speed = (speed - 1) / 100;
+    }
+    return location;
+  });
+}
@@ -0,0 +1,288 @@
+import type { LocationData, RecordedLocation, TrackingStatus } from './types';
+import type {
+  TrackingEventMap,
+  TrackingEventName,
+  TrackingEventSource,
+  TrackingSubscription,
+} from './backend';
+import { toLocationData } from './simulator';
+import { parseGPX } from './export';
+import { TrackingSession } from './session';
+
+/**
+ * Receives replayed events, e.g. a TrackingSimulator registered with setTrackingBackend
+ * so that addLocationUpdateListener, hooks and managers using the default source see the replay
+ */
+export interface ReplayTarget {
+  emit<K extends TrackingEventName>(eventName: K, event: TrackingEventMap[K]): void;
+}
+
+export type ReplayState = 'idle' | 'playing' | 'paused' | 'finished';
+
+/**
+ * Options for TripReplay
+ */
+export interface TripReplayOptions {
+  /** Playback rate: 1 = real time, 10 = ten times faster (default: 1) */
+  speed?: number;
+  /** 'timed' follows the recorded timestamps, 'stepped' only advances on step() (default: 'timed') */
+  mode?: 'timed' | 'stepped';
+  /** Also emit every event to this target */
+  target?: ReplayTarget;
+  /** Shift timestamps so the first fix is stamped with the time playback started (default: false) */
+  rebaseTimestamps?: boolean;
+  /** Called after the last fix was emitted */
+  onComplete?: () => void;
+}
+
+type Listener = (event: unknown) => void;
+
+/**
+ * Replays a recorded trip as onLocationUpdate/onTrackingStatusChanged events
+ */
+export class TripReplay implements TrackingEventSource {
+  private readonly track: RecordedLocation[];
+  private readonly mode: 'timed' | 'stepped';
+  private readonly target: ReplayTarget | null;
+  private readonly rebaseTimestamps: boolean;
+  private readonly onComplete?: () => void;
+
+  private speed: number;
+  private state: ReplayState = 'idle';
+  private index: number = 0;
+  private previous: LocationData | null = null;
+  private timestampOffset: number = 0;
+  private rebased: boolean = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Map<TrackingEventName, Set<Listener>>();
+
+  /**
+   * @param track - Recorded locations in chronological order
+   * @param options - Playback options
+   */
+  constructor(track: RecordedLocation[], options: TripReplayOptions = {}) {
+    this.track = [...track].sort((a, b) => a.timestamp - b.timestamp);
+    this.mode = options.mode ?? 'timed';
+    this.target = options.target ?? null;
+    this.rebaseTimestamps = options.rebaseTimestamps ?? false;
+    this.onComplete = options.onComplete;
+    this.speed = this.validSpeed(options.speed ?? 1);
+  }
+
+  /**
+   * Create a replay from a GPX document
+   * @param gpx - GPX XML string
+   * @param options - Playback options
+   */
+  static fromGPX(gpx: string, options: TripReplayOptions = {}): TripReplay {
+    return new TripReplay(parseGPX(gpx), options);
+  }
+
+  /**
+   * Create a replay from a session's recorded locations
+   * @param session - Tracking session
+   * @param options - Playback options
+   */
+  static fromSession(session: TrackingSession, options: TripReplayOptions = {}): TripReplay {
+    return new TripReplay(session.getLocations(), options);
+  }
+
+  addListener<K extends TrackingEventName>(
+    eventName: K,
+    listener: (event: TrackingEventMap[K]) => void
+  ): TrackingSubscription {
+    const set = this.listeners.get(eventName) ?? new Set<Listener>();
+    set.add(listener as Listener);
+    this.listeners.set(eventName, set);
+    return {
+      remove: () => {
+        set.delete(listener as Listener);
+      }
+    };
+  }
+
+  /**
+   * Start or resume playback (in stepped mode only the tracking status is emitted)
+   */
+  play(): void {
+    if (this.state === 'playing') {
+      return;
+    }
+    if (this.state === 'finished') {
+      this.rewind();
+    }
+
+    this.state = 'playing';
+    this.emitStatus();
+    // Nothing to emit (e.g. a GPX without trkpt): finish instead of staying 'playing'
+    if (this.track.length === 0) {
+      this.finish();
+      return;
+    }
+    if (this.mode === 'timed') {
+      this.scheduleNext(0);
+    }
+  }
+
+  /**
+   * Pause playback at the current position
+   */
+  pause(): void {
+    if (this.state !== 'playing') {
+      return;
+    }
+    this.clearTimer();
+    this.state = 'paused';
+    this.emitStatus();
+  }
+
+  /**
+   * Stop playback and rewind to the first fix
+   */
+  stop(): void {
+    const wasActive = this.state === 'playing' || this.state === 'paused';
+    this.clearTimer();
+    this.rewind();
+    this.state = 'idle';
+    if (wasActive) {
+      this.emitStatus();
+    }
+  }
+
+  /**
+   * Emit the next fix immediately
+   * @returns Emitted location, or null when the track is exhausted
+   */
+  step(): LocationData | null {
+    const fix = this.track[this.index];
+    if (!fix) {
+      return null;
+    }
+
+    if (this.rebaseTimestamps && !this.rebased) {
+      this.timestampOffset = Date.now() - fix.timestamp;
+      this.rebased = true;
+    }
+
+    const location = toLocationData(
+      { ...fix, timestamp: fix.timestamp + this.timestampOffset },
+      this.previous
+    );
+    this.previous = location;
+    this.index++;
+    this.emit('onLocationUpdate', location);
+
+    if (this.index >= this.track.length) {
+      this.finish();
+    }
+    return location;
+  }
+
+  /**
+   * Jump to a fix; playback continues from there
+   * @param index - Index of the next fix to emit
+   */
+  seek(index: number): void {
+    this.clearTimer();
+    this.index = Math.max(0, Math.min(this.track.length, Math.floor(index)));
+    // Speed and bearing of the next fix are derived from its real predecessor
+    const before = this.track[this.index - 1];
+    this.previous = before
+      ? toLocationData({ ...before, timestamp: before.timestamp + this.timestampOffset }, null)
+      : null;
+
+    if (this.state === 'finished' && this.index < this.track.length) {
+      this.state = 'paused';
+    }
+    if (this.state === 'playing' && this.mode === 'timed') {
+      this.scheduleNext(0);
+    }
+  }
+
+  /**
+   * Jump to the first fix recorded at or after a time
+   * @param timestamp - Recorded timestamp in ms (before rebasing)
+   */
+  seekToTime(timestamp: number): void {
+    const index = this.track.findIndex(fix => fix.timestamp >= timestamp);
+    this.seek(index === -1 ? this.track.length : index);
+  }
+
+  /**
+   * Change the playback rate, effective from the next fix
+   * @param speed - Playback rate (1 = real time)
+   */
+  setSpeed(speed: number): void {
+    this.speed = this.validSpeed(speed);
+  }
+
+  /**
+   * Get the playback state
+   */
+  getState(): ReplayState {
+    return this.state;
+  }
+
+  /**
+   * Get the playback position
+   * @returns Index of the next fix and the number of fixes
+   */
+  getPosition(): { index: number; total: number } {
+    return { index: this.index, total: this.track.length };
+  }
+
+  private scheduleNext(delay: number): void {
+    this.clearTimer();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      const emitted = this.step();
+      const next = this.track[this.index];
+      if (emitted && next && this.state === 'playing') {
+        const recordedGap = next.timestamp - (emitted.timestamp - this.timestampOffset);
+        this.scheduleNext(Math.max(0, recordedGap) / this.speed);
+      }
+    }, delay);
+  }
+
+  private finish(): void {
+    this.clearTimer();
+    this.state = 'finished';
+    this.emitStatus();
+    this.onComplete?.();
+  }
+
+  private rewind(): void {
+    this.index = 0;
+    this.previous = null;
+    this.timestampOffset = 0;
+    this.rebased = false;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private validSpeed(speed: number): number {
+    return Number.isFinite(speed) && speed > 0 ? speed : 1;
+  }
+
+  private emitStatus(): void {
+    const first = this.track[0];
+    const status: TrackingStatus = {
+      isTracking: this.state === 'playing',
+      lastLocationUpdate: this.previous?.timestamp,
+      trackingDuration: first && this.previous
+        ? this.previous.timestamp - this.timestampOffset - first.timestamp
+        : 0
+    };
+    this.emit('onTrackingStatusChanged', status);
+  }
+
+  private emit<K extends TrackingEventName>(eventName: K, event: TrackingEventMap[K]): void {
+    this.listeners.get(eventName)?.forEach(listener => listener(event));
+    this.target?.emit(eventName, event);
+  }
+}
@@ -0,0 +1,317 @@
+import type { LocationData, NearestAlertResult, ProcessedRouteData, RouteAlert, RouteLink } from './types';
+import { LINK_DIRECTION } from './constants';
+import { RouteDataError } from './errors';
+import { LocationUtils } from './utils';
+import { bearingDifference, projectOntoSegment } from './geometry';
+import { decodeLinkSpeedLimits } from './speedLimits';
+
+/**
+ * Route data as received from the route/alert API
+ */
+export interface RouteJson {
+  links: unknown[];
+  alerts?: unknown[];
+  /** [linkIndex, meters from the link start] for each alert */
+  offset?: unknown[];
+}
+
+/**
+ * Location used for route lookups; bearing, speed and timestamp are optional
+ */
+export type RouteLocation = Pick<LocationData, 'latitude' | 'longitude'> &
+  Partial<Pick<LocationData, 'bearing' | 'speed' | 'timestamp'>>;
+
+/**
+ * Options for findNearestAlert
+ */
+export interface NearestAlertOptions {
+  /** Maximum difference between the bearing and the link travel direction in degrees (default: 60) */
+  maxBearingDifference?: number;
+  /** Speed below which the bearing is ignored as unreliable in m/s (default: 1) */
+  minSpeedForBearing?: number;
+  /** Links farther away than this are ignored in meters (default: Infinity) */
+  maxDistance?: number;
+}
+
+type RawRecord = Record<string, unknown>;
+
+const LINK_DIRECTIONS: readonly number[] = Object.values(LINK_DIRECTION);
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Check a coordinate field and record an error if it is out of range
+ */
+function checkCoordinate(
+  raw: RawRecord,
+  field: string,
+  limit: number,
+  path: string,
+  errors: string[]
+): number {
+  const value = raw[field];
+  if (!isFiniteNumber(value)) {
+    errors.push(`${path}.${field} must be a number`);
+    return 0;
+  }
+  if (value < -limit || value > limit) {
+    errors.push(`${path}.${field} must be between -${limit} and ${limit}`);
+  }
+  return value;
+}
+
+function parseLink(raw: unknown, index: number, errors: string[], warnings: string[]): RouteLink | null {
+  const path = `links[${index}]`;
+  if (!isRecord(raw)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  if (!isFiniteNumber(raw.id)) {
+    errors.push(`${path}.id must be a number`);
+  }
+  if (!isFiniteNumber(raw.direction)) {
+    errors.push(`${path}.direction must be a number`);
+  } else if (!LINK_DIRECTIONS.includes(raw.direction)) {
+    warnings.push(`${path}.direction ${raw.direction} is not one of ${LINK_DIRECTIONS.join(', ')} (treated as two-way)`);
+  }
+
+  const startLat = checkCoordinate(raw, 'startLat', 90, path, errors);
+  const startLon = checkCoordinate(raw, 'startLon', 180, path, errors);
+  const endLat = checkCoordinate(raw, 'endLat', 90, path, errors);
+  const endLon = checkCoordinate(raw, 'endLon', 180, path, errors);
+
+  if (raw.distance !== undefined && (!isFiniteNumber(raw.distance) || raw.distance < 0)) {
+    errors.push(`${path}.distance must be a non-negative number`);
+  }
+
+  const speedLimits = raw.speedLimits ?? [];
+  const validSpeedLimits = Array.isArray(speedLimits) &&
+    speedLimits.every(tier => Array.isArray(tier) && tier.every(isFiniteNumber));
+  if (!validSpeedLimits) {
+    errors.push(`${path}.speedLimits must be an array of number arrays`);
+  }
+
+  if (errors.length > errorCount) {
+    return null;
+  }
+
+  const tiers = (speedLimits as number[][]).map(tier => [...tier]);
+  decodeLinkSpeedLimits(tiers, `${path}.speedLimits`, warnings);
+  return {
+    id: raw.id as number,
+    direction: LINK_DIRECTIONS.includes(raw.direction as number) ? raw.direction as number : LINK_DIRECTION.BOTH,
+    startLat,
+    startLon,
+    endLat,
+    endLon,
+    // Computed when the API omits it so progress and matching always have a length
+    distance: isFiniteNumber(raw.distance)
+      ? raw.distance
+      : LocationUtils.calculateDistance(startLat, startLon, endLat, endLon),
+    speedLimits: tiers
+  };
+}
+
+function parseAlert(raw: unknown, index: number, errors: string[]): RouteAlert | null {
+  const path = `alerts[${index}]`;
+  if (!isRecord(raw)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+
+  const errorCount = errors.length;
+  if (!isFiniteNumber(raw.type)) {
+    errors.push(`${path}.type must be a number`);
+  }
+  if (raw.subtype !== undefined && !isFiniteNumber(raw.subtype)) {
+    errors.push(`${path}.subtype must be a number`);
+  }
+  if (raw.speedLimit !== undefined && (!isFiniteNumber(raw.speedLimit) || raw.speedLimit <= 0)) {
+    errors.push(`${path}.speedLimit must be a positive number`);
+  }
+
+  if (errors.length > errorCount) {
+    return null;
+  }
+
+  const alert: RouteAlert = { type: raw.type as number };
+  if (raw.subtype !== undefined) {
+    alert.subtype = raw.subtype as number;
+  }
+  if (raw.speedLimit !== undefined) {
+    alert.speedLimit = raw.speedLimit as number;
+  }
+  return alert;
+}
+
+function parseOffset(
+  raw: unknown,
+  index: number,
+  links: Array<RouteLink | null>,
+  errors: string[]
+): [number, number] | null {
+  const path = `offset[${index}]`;
+  if (!Array.isArray(raw) || raw.length < 2 || !raw.every(isFiniteNumber)) {
+    errors.push(`${path} must be a [linkIndex, distance] pair`);
+    return null;
+  }
+
+  const [linkIndex, distance] = raw as number[];
+  const link = links[linkIndex!];
+  if (!Number.isInteger(linkIndex) || linkIndex! < 0 || linkIndex! >= links.length) {
+    errors.push(`${path} references missing link ${linkIndex}`);
+    return null;
+  }
+  if (distance! < 0 || (link && distance! > link.distance + 1)) {
+    errors.push(`${path} distance must lie within link ${linkIndex}`);
+    return null;
+  }
+  return [linkIndex!, distance!];
+}
+
+/**
+ * Parse and validate route/alert data into ProcessedRouteData.
+ * Runs entirely in JavaScript, so results are identical on Android, iOS and in tests.
+ * @param routeJson - Route data object or its JSON string
+ * @returns Validated route data; skipped speed limit tiers and two-way fallbacks for unknown
+ * direction codes are listed in warnings
+ * @throws RouteDataError listing every malformed link, alert or offset
+ */
+export function processRouteData(routeJson: RouteJson | string): ProcessedRouteData {
+  let data: unknown = routeJson;
+  if (typeof routeJson === 'string') {
+    try {
+      data = JSON.parse(routeJson);
+    } catch (error) {
+      throw new RouteDataError(['route data is not valid JSON'], error);
+    }
+  }
+
+  if (!isRecord(data) || !Array.isArray(data.links)) {
+    throw new RouteDataError(['links must be an array']);
+  }
+
+  const errors: string[] = [];
+  const rawAlerts = data.alerts ?? [];
+  const rawOffset = data.offset ?? [];
+  if (!Array.isArray(rawAlerts)) {
+    errors.push('alerts must be an array');
+  }
+  if (!Array.isArray(rawOffset)) {
+    errors.push('offset must be an array');
+  }
+
+  const warnings: string[] = [];
+  const links = data.links.map((link, index) => parseLink(link, index, errors, warnings));
+  const alerts = Array.isArray(rawAlerts)
+    ? rawAlerts.map((alert, index) => parseAlert(alert, index, errors))
+    : [];
+  const offset = Array.isArray(rawOffset)
+    ? rawOffset.map((entry, index) => parseOffset(entry, index, links, errors))
+    : [];
+
+  if (offset.length > 0 && offset.length !== alerts.length) {
+    errors.push(`offset must have one entry per alert (expected ${alerts.length}, got ${offset.length})`);
+  }
+
+  if (errors.length > 0) {
+    throw new RouteDataError(errors);
+  }
+
+  return {
+    links: links as RouteLink[],
+    alerts: alerts as RouteAlert[],
+    offset: offset as Array<[number, number]>,
+    totalLinks: links.length,
+    totalAlerts: alerts.length,
+    warnings
+  };
+}
+
+/**
+ * Headings a vehicle may travel along a link
+ * @param link - Route link
+ * @returns Allowed headings in degrees clockwise from north (two for two-way links)
+ */
+export function getLinkHeadings(link: RouteLink): number[] {
+  const forward = LocationUtils.calculateBearing(link.startLat, link.startLon, link.endLat, link.endLon);
+  const backward = (forward + 180) % 360;
+  switch (link.direction) {
+    case LINK_DIRECTION.FORWARD:
+      return [forward];
+    case LINK_DIRECTION.BACKWARD:
+      return [backward];
+    default:
+      return [forward, backward];
+  }
+}
+
+/**
+ * Find the link a location is on and the alerts attached to it.
+ * One-way links whose travel direction disagrees with the current bearing are skipped, so the
+ * opposite carriageway of a divided road is not picked up.
+ * @param location - Current location (bearing is used when speed is above minSpeedForBearing)
+ * @param route - Route data from processRouteData
+ * @param options - Bearing and distance limits
+ * @returns Nearest link index, perpendicular distance and its alerts, or null if no link qualifies
+ */
+export function findNearestAlert(
+  location: RouteLocation,
+  route: ProcessedRouteData,
+  options: NearestAlertOptions = {}
+): NearestAlertResult | null {
+  const maxBearingDifference = options.maxBearingDifference ?? 60;
+  const minSpeedForBearing = options.minSpeedForBearing ?? 1;
+  const maxDistance = options.maxDistance ?? Infinity;
+
+  const bearing = location.bearing ?? -1;
+  const useBearing = bearing >= 0 &&
+    (location.speed === undefined || location.speed < 0 || location.speed >= minSpeedForBearing);
+
+  let nearestLinkIndex = -1;
+  let distanceToLink = Infinity;
+
+  route.links.forEach((link, index) => {
+    const headings = useBearing ? getLinkHeadings(link) : [];
+    if (useBearing && !headings.some(heading => bearingDifference(heading, bearing) <= maxBearingDifference)) {
+      return;
+    }
+
+    const { distance } = projectOntoSegment(
+      location.latitude, location.longitude,
+      link.startLat, link.startLon,
+      link.endLat, link.endLon
+    );
+    if (distance < distanceToLink && distance <= maxDistance) {
+      nearestLinkIndex = index;
+      distanceToLink = distance;
+    }
+  });
+
+  if (nearestLinkIndex === -1) {
+    return null;
+  }
+
+  return { nearestLinkIndex, distanceToLink, alerts: getLinkAlerts(route, nearestLinkIndex) };
+}
+
+/**
+ * Alerts placed on a link by route.offset
+ * @param route - Route data from processRouteData
+ * @param linkIndex - Index in route.links
+ * @returns Alerts on the link in route order
+ */
+export function getLinkAlerts(route: ProcessedRouteData, linkIndex: number): RouteAlert[] {
+  return route.alerts.filter((_, index) => {
+    const position = route.offset[index] as [number, number] | undefined;
+    return position?.[0] === linkIndex;
+  });
+}
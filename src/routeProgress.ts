@@ -0,0 +1,287 @@
+import type { LocationData, ProcessedRouteData } from './types';
+import type { TrackingEventSource, TrackingSubscription } from './backend';
+import { getTrackingEvents } from './backend';
+import { projectOntoSegment } from './geometry';
+import { getSpeedLimit } from './speedLimits';
+import type { VehicleClass } from './speedLimits';
+
+/**
+ * Options for RouteProgressTracker
+ */
+export interface RouteProgressTrackerOptions {
+  /** Route being driven (can be replaced later with setRoute) */
+  route?: ProcessedRouteData;
+  /** Fixes farther from the route than this do not advance progress in meters (default: 50) */
+  maxDistance?: number;
+  /** Time window of recent fixes used for the moving speed in ms (default: 60000) */
+  speedWindowMs?: number;
+  /** Speed at or above which a fix counts as moving in m/s (default: 1) */
+  movingSpeed?: number;
+  /** Vehicle class used to pick RouteLink.speedLimits tiers for the fallback ETA (default: 'car') */
+  vehicleClass?: VehicleClass;
+  /** Speed assumed on links without a speed limit for the fallback ETA in km/h (default: 40) */
+  defaultSpeedKmh?: number;
+  /** Remaining distance at which the destination counts as reached in meters (default: 20) */
+  arrivalRadius?: number;
+}
+
+/**
+ * Progress along the route after a fix
+ */
+export interface RouteProgress {
+  /** Index of the current link in route.links */
+  linkIndex: number;
+  linkId: number;
+  /** Along-track distance from the route start in meters */
+  distanceTravelled: number;
+  /** Along-track distance to the destination in meters */
+  distanceRemaining: number;
+  /** Route length in meters */
+  totalDistance: number;
+  /** Share of the route travelled (0-100) */
+  percentComplete: number;
+  /** Estimated time to the destination in ms */
+  remainingTime: number;
+  /** Estimated arrival time (ms since epoch) */
+  eta: number;
+  /** Whether the estimate uses the recent moving speed or the links' speed limits */
+  etaSource: 'movingSpeed' | 'speedLimits';
+  /** False when the fix was too far from the route to advance progress */
+  onRoute: boolean;
+  /** Whether the destination is within the arrival radius */
+  arrived: boolean;
+  /** Fix the progress was computed for */
+  location: LocationData;
+}
+
+export type RouteProgressCallback = (progress: RouteProgress) => void;
+
+interface SpeedSample {
+  timestamp: number;
+  speed: number;
+}
+
+/**
+ * Tracks along-route distance, remaining distance and ETA from the location stream.
+ * Each fix is matched to the nearest point ahead along the route rather than the closest link, so
+ * looping or out-and-back routes are neither matched to a part already driven nor skipped ahead.
+ */
+export class RouteProgressTracker {
+  private route: ProcessedRouteData | null = null;
+  private readonly maxDistance: number;
+  private readonly speedWindowMs: number;
+  private readonly movingSpeed: number;
+  private readonly vehicleClass: VehicleClass;
+  private readonly defaultSpeedKmh: number;
+  private readonly arrivalRadius: number;
+
+  /** Along-track distance at the start of each link, plus the total at the end */
+  private cumulative: number[] = [0];
+  private linkIndex: number = 0;
+  private distanceTravelled: number = 0;
+  private samples: SpeedSample[] = [];
+  private previous: { location: LocationData; distanceTravelled: number } | null = null;
+  private lastProgress: RouteProgress | null = null;
+  private listeners = new Set<RouteProgressCallback>();
+  private subscription: TrackingSubscription | null = null;
+
+  constructor(options: RouteProgressTrackerOptions = {}) {
+    this.maxDistance = options.maxDistance ?? 50;
+    this.speedWindowMs = options.speedWindowMs ?? 60000;
+    this.movingSpeed = options.movingSpeed ?? 1;
+    this.vehicleClass = options.vehicleClass ?? 'car';
+    this.defaultSpeedKmh = options.defaultSpeedKmh ?? 40;
+    this.arrivalRadius = options.arrivalRadius ?? 20;
+    this.setRoute(options.route ?? null);
+  }
+
+  /**
+   * Replace the route (e.g. after rerouting) and restart from its first link
+   * @param route - Route data from processRouteData, or null to stop tracking
+   */
+  setRoute(route: ProcessedRouteData | null): void {
+    this.route = route;
+    this.cumulative = [0];
+    route?.links.forEach(link => {
+      this.cumulative.push(this.cumulative[this.cumulative.length - 1]! + link.distance);
+    });
+    this.reset();
+  }
+
+  /**
+   * Subscribe to progress updates
+   * @param callback - Callback function to receive progress after each fix
+   * @returns Subscription object with remove method
+   */
+  addListener(callback: RouteProgressCallback): TrackingSubscription {
+    this.listeners.add(callback);
+    return {
+      remove: () => {
+        this.listeners.delete(callback);
+      }
+    };
+  }
+
+  /**
+   * Start consuming onLocationUpdate events
+   * @param source - Event source (default: active tracking backend)
+   */
+  start(source: TrackingEventSource = getTrackingEvents()): void {
+    this.stop();
+    this.subscription = source.addListener('onLocationUpdate', location => this.processLocation(location));
+  }
+
+  /**
+   * Stop consuming location events
+   */
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+
+  /**
+   * Progress after the most recent fix
+   */
+  getProgress(): RouteProgress | null {
+    return this.lastProgress;
+  }
+
+  /**
+   * Update progress with a fix
+   * @param location - New location in chronological order
+   * @returns Progress, or null when no route is set
+   */
+  processLocation(location: LocationData): RouteProgress | null {
+    const route = this.route;
+    if (!route || route.links.length === 0) {
+      return null;
+    }
+
+    const position = this.locate(location);
+    if (position) {
+      this.linkIndex = position.linkIndex;
+      this.distanceTravelled = position.distanceTravelled;
+    }
+    this.addSpeedSample(location);
+
+    const totalDistance = this.cumulative[route.links.length]!;
+    const distanceRemaining = Math.max(0, totalDistance - this.distanceTravelled);
+    const movingSpeed = this.getMovingSpeed();
+    const remainingTime = movingSpeed !== null
+      ? (distanceRemaining / movingSpeed) * 1000
+      : this.estimateFromSpeedLimits(location.timestamp);
+
+    const progress: RouteProgress = {
+      linkIndex: this.linkIndex,
+      linkId: route.links[this.linkIndex]!.id,
+      distanceTravelled: this.distanceTravelled,
+      distanceRemaining,
+      totalDistance,
+      percentComplete: totalDistance > 0 ? (this.distanceTravelled / totalDistance) * 100 : 100,
+      remainingTime,
+      eta: location.timestamp + remainingTime,
+      etaSource: movingSpeed !== null ? 'movingSpeed' : 'speedLimits',
+      onRoute: position !== null,
+      arrived: distanceRemaining <= this.arrivalRadius,
+      location
+    };
+
+    this.previous = { location, distanceTravelled: this.distanceTravelled };
+    this.lastProgress = progress;
+    this.listeners.forEach(listener => listener(progress));
+    return progress;
+  }
+
+  /**
+   * Restart from the beginning of the route
+   */
+  reset(): void {
+    this.linkIndex = 0;
+    this.distanceTravelled = 0;
+    this.samples = [];
+    this.previous = null;
+    this.lastProgress = null;
+  }
+
+  /**
+   * Point within maxDistance on the current or a later link with the smallest along-track advance.
+   * A point behind the current position (only possible on the current link) is used when nothing
+   * within reach lies ahead.
+   */
+  private locate(location: LocationData): { linkIndex: number; distanceTravelled: number } | null {
+    const links = this.route!.links;
+    let ahead: { linkIndex: number; distanceTravelled: number } | null = null;
+    let behind: { linkIndex: number; distanceTravelled: number } | null = null;
+
+    for (let linkIndex = this.linkIndex; linkIndex < links.length; linkIndex++) {
+      const link = links[linkIndex]!;
+      const projection = projectOntoSegment(
+        location.latitude, location.longitude,
+        link.startLat, link.startLon,
+        link.endLat, link.endLon
+      );
+      if (projection.distance > this.maxDistance) {
+        continue;
+      }
+
+      const candidate = {
+        linkIndex,
+        distanceTravelled: this.cumulative[linkIndex]! + projection.fraction * link.distance
+      };
+      if (candidate.distanceTravelled < this.distanceTravelled) {
+        behind = candidate;
+      } else if (!ahead || candidate.distanceTravelled < ahead.distanceTravelled) {
+        ahead = candidate;
+      }
+    }
+    return ahead ?? behind;
+  }
+
+  /**
+   * Record the speed of a fix: reported speed, or along-track progress since the previous fix
+   */
+  private addSpeedSample(location: LocationData): void {
+    let speed = location.speed;
+    if (!(speed >= 0) && this.previous) {
+      const elapsed = (location.timestamp - this.previous.location.timestamp) / 1000;
+      speed = elapsed > 0 ? (this.distanceTravelled - this.previous.distanceTravelled) / elapsed : 0;
+    }
+
+    this.samples.push({ timestamp: location.timestamp, speed: Math.max(0, speed) });
+    const cutoff = location.timestamp - this.speedWindowMs;
+    while (this.samples.length > 0 && this.samples[0]!.timestamp < cutoff) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Average speed of the moving fixes in the window, or null if the vehicle was not moving
+   */
+  private getMovingSpeed(): number | null {
+    const moving = this.samples.filter(sample => sample.speed >= this.movingSpeed);
+    if (moving.length === 0) {
+      return null;
+    }
+    return moving.reduce((sum, sample) => sum + sample.speed, 0) / moving.length;
+  }
+
+  /**
+   * Time to drive the rest of the route at each link's speed limit in ms
+   */
+  private estimateFromSpeedLimits(time: number): number {
+    const links = this.route!.links;
+    let remainingTime = 0;
+
+    links.forEach((link, linkIndex) => {
+      if (linkIndex < this.linkIndex) {
+        return;
+      }
+      const remaining = linkIndex === this.linkIndex
+        ? this.cumulative[linkIndex + 1]! - this.distanceTravelled
+        : link.distance;
+      const speedKmh = getSpeedLimit(link, this.vehicleClass, time) ?? this.defaultSpeedKmh;
+      remainingTime += (Math.max(0, remaining) / (speedKmh / 3.6)) * 1000;
+    });
+    return remainingTime;
+  }
+}
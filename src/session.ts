@@ -0,0 +1,331 @@
+import type { LocationData, RecordedLocation, SessionStats, Stop } from './types';
+import { StopDetector } from './stops';
+import { SessionStatsAccumulator } from './stats';
+import type { SessionStatsOptions } from './stats';
+import type { StopDetectionOptions } from './stops';
+import type { OutlierFilter } from './filters';
+import { simplifyTrack } from './simplify';
+import type { SimplifyOptions } from './simplify';
+import { getTrackingEvents } from './backend';
+import type { TrackingEventSource, TrackingSubscription } from './backend';
+import { getDefaultStorage } from './storage';
+import type { StorageAdapter } from './storage';
+
+/**
+ * Options for a tracking session
+ */
+export interface TrackingSessionOptions {
+  /** Session id; when set the session checkpoints to storage and can be restored */
+  id?: string;
+  /** Storage adapter for checkpoints (default: getDefaultStorage()) */
+  storage?: StorageAdapter;
+  /** Number of new locations between automatic checkpoints (default: 10) */
+  checkpointEvery?: number;
+  /** Enable stop and dwell detection */
+  stopDetection?: StopDetectionOptions;
+  /** Drop GPS spikes before they are recorded or counted in the distance */
+  outlierFilter?: OutlierFilter;
+  /** Moving speed, elevation noise threshold and split length used by getStats() */
+  stats?: SessionStatsOptions;
+}
+
+/**
+ * Checkpoint metadata stored under `tracking_session:<id>:meta`
+ */
+interface SessionCheckpoint {
+  version: 1;
+  startTime: number;
+  locationCount: number;
+  chunkSize: number;
+}
+
+const SESSION_CHUNK_SIZE = 100;
+
+/**
+ * Location tracking session manager
+ */
+export class TrackingSession {
+  private startTime: number = 0;
+  private locationHistory: RecordedLocation[] = [];
+
+  private readonly id: string | null;
+  private readonly storage: StorageAdapter;
+  private readonly checkpointEvery: number;
+  private readonly stopDetector: StopDetector | null;
+  private readonly outlierFilter: OutlierFilter | null;
+  private readonly stats: SessionStatsAccumulator;
+  private persistedCount: number = 0;
+  private replaying: boolean = false;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(options: TrackingSessionOptions = {}) {
+    this.id = options.id ?? null;
+    this.storage = options.storage ?? getDefaultStorage();
+    this.checkpointEvery = Math.max(1, options.checkpointEvery ?? 10);
+    this.stopDetector = options.stopDetection ? new StopDetector(options.stopDetection) : null;
+    this.outlierFilter = options.outlierFilter ?? null;
+    this.stats = new SessionStatsAccumulator(options.stats);
+  }
+
+  /**
+   * Rehydrate a session from its last checkpoint
+   * @param id - Session id used when the session was created
+   * @param options - Storage and checkpoint options for the restored session
+   * @returns Restored session, or null if no checkpoint exists
+   */
+  static async restore(
+    id: string,
+    options: Omit<TrackingSessionOptions, 'id'> = {}
+  ): Promise<TrackingSession | null> {
+    const session = new TrackingSession({ ...options, id });
+    const meta = await session.storage.getItem(session.metaKey());
+    if (!meta) {
+      return null;
+    }
+
+    const checkpoint = JSON.parse(meta) as SessionCheckpoint;
+    const chunkCount = Math.ceil(checkpoint.locationCount / checkpoint.chunkSize);
+    session.startTime = checkpoint.startTime;
+
+    // Replay without callbacks so derived state (statistics, stops) is rebuilt silently
+    session.replaying = true;
+    for (let chunk = 0; chunk < chunkCount; chunk++) {
+      const data = await session.storage.getItem(session.chunkKey(chunk));
+      const locations: RecordedLocation[] = data ? JSON.parse(data) : [];
+      // Chunks may hold locations written after the last metadata update
+      locations.slice(0, checkpoint.locationCount - session.locationHistory.length).forEach(location => {
+        session.outlierFilter?.evaluate(location);
+        session.record(location);
+      });
+    }
+    session.replaying = false;
+
+    session.persistedCount = session.locationHistory.length;
+    return session;
+  }
+
+  /**
+   * Get the session id (null for sessions that are not persisted)
+   */
+  getId(): string | null {
+    return this.id;
+  }
+
+  /**
+   * Start a new tracking session
+   */
+  start(): void {
+    const previousCount = this.persistedCount;
+    this.startTime = Date.now();
+    this.locationHistory = [];
+    this.persistedCount = 0;
+    this.stopDetector?.reset();
+    this.outlierFilter?.reset();
+    this.stats.reset();
+
+    if (this.id) {
+      const startTime = this.startTime;
+      this.enqueueWrite(async () => {
+        await this.removeChunks(previousCount);
+        await this.writeMeta(startTime, 0);
+      });
+    }
+  }
+
+  /**
+   * Add a location update to the session
+   * @param location - Full location data from addLocationUpdateListener
+   */
+  addLocation(location: LocationData): void;
+  /**
+   * Add a location update to the session
+   * @param latitude - Latitude value
+   * @param longitude - Longitude value
+   * @param timestamp - Timestamp (ms)
+   */
+  addLocation(latitude: number, longitude: number, timestamp: number): void;
+  addLocation(locationOrLatitude: LocationData | number, longitude?: number, timestamp?: number): void {
+    const currentLocation: RecordedLocation = typeof locationOrLatitude === 'number'
+      ? { latitude: locationOrLatitude, longitude: longitude as number, timestamp: timestamp as number }
+      : { ...locationOrLatitude };
+
+    if (this.outlierFilter && !this.outlierFilter.evaluate(currentLocation).accepted) {
+      return;
+    }
+
+    this.record(currentLocation);
+
+    if (this.id && this.locationHistory.length - this.persistedCount >= this.checkpointEvery) {
+      this.checkpoint();
+    }
+  }
+
+  /**
+   * Record every onLocationUpdate event from a source
+   * @param source - Event source, e.g. a LocationPipeline for smoothed fixes (default: raw tracking feed)
+   * @returns Subscription object with remove method
+   */
+  subscribe(source: TrackingEventSource = getTrackingEvents()): TrackingSubscription {
+    return source.addListener('onLocationUpdate', location => this.addLocation(location));
+  }
+
+  /**
+   * Persist locations added since the last checkpoint
+   * @returns Promise resolved when all pending writes have finished
+   */
+  checkpoint(): Promise<void> {
+    if (!this.id) {
+      return Promise.resolve();
+    }
+
+    const locationCount = this.locationHistory.length;
+    if (locationCount === this.persistedCount) {
+      return this.pendingWrite;
+    }
+
+    const firstChunk = Math.floor(this.persistedCount / SESSION_CHUNK_SIZE);
+    const lastChunk = Math.floor((locationCount - 1) / SESSION_CHUNK_SIZE);
+    const chunks: Array<{ index: number; data: string }> = [];
+
+    for (let chunk = firstChunk; chunk <= lastChunk; chunk++) {
+      const slice = this.locationHistory.slice(chunk * SESSION_CHUNK_SIZE, (chunk + 1) * SESSION_CHUNK_SIZE);
+      chunks.push({ index: chunk, data: JSON.stringify(slice) });
+    }
+    const startTime = this.startTime;
+    this.persistedCount = locationCount;
+
+    return this.enqueueWrite(async () => {
+      for (const chunk of chunks) {
+        await this.storage.setItem(this.chunkKey(chunk.index), chunk.data);
+      }
+      await this.writeMeta(startTime, locationCount);
+    });
+  }
+
+  /**
+   * Get session statistics (maintained incrementally as locations are added)
+   */
+  getStats(): SessionStats {
+    const duration = Date.now() - this.startTime;
+    const stats = this.stats.getStats();
+    const averageSpeed = duration > 0 ? (stats.distance / (duration / 1000)) : 0;
+
+    return {
+      ...stats,
+      duration,
+      averageSpeed
+    };
+  }
+
+  /**
+   * Get completed stops (requires the stopDetection option)
+   */
+  getStops(): Stop[] {
+    return this.stopDetector?.getStops() ?? [];
+  }
+
+  /**
+   * Get the stop the device is currently dwelling in, if any
+   */
+  getCurrentStop(): Stop | null {
+    return this.stopDetector?.getCurrentStop() ?? null;
+  }
+
+  /**
+   * Get location history
+   */
+  getHistory(): Array<{ lat: number; lon: number; timestamp: number }> {
+    return this.locationHistory.map(location => ({
+      lat: location.latitude,
+      lon: location.longitude,
+      timestamp: location.timestamp
+    }));
+  }
+
+  /**
+   * Get location history simplified for payloads and map polylines
+   * @param options - Tolerance in meters and algorithm ('douglas-peucker' or 'visvalingam')
+   */
+  getSimplifiedHistory(options: SimplifyOptions): Array<{ lat: number; lon: number; timestamp: number }> {
+    return simplifyTrack(this.locationHistory, options).map(location => ({
+      lat: location.latitude,
+      lon: location.longitude,
+      timestamp: location.timestamp
+    }));
+  }
+
+  /**
+   * Get recorded locations including speed, accuracy, bearing and altitude when available
+   */
+  getLocations(): RecordedLocation[] {
+    return this.locationHistory.map(location => ({ ...location }));
+  }
+
+  /**
+   * Clear session data (including its checkpoint in storage)
+   */
+  clear(): void {
+    const previousCount = this.persistedCount;
+    this.startTime = 0;
+    this.locationHistory = [];
+    this.persistedCount = 0;
+    this.stopDetector?.reset();
+    this.outlierFilter?.reset();
+    this.stats.reset();
+
+    if (this.id) {
+      this.enqueueWrite(async () => {
+        await this.removeChunks(previousCount);
+        await this.storage.removeItem(this.metaKey());
+      });
+    }
+  }
+
+  /**
+   * Update statistics and history with a location
+   */
+  private record(location: RecordedLocation): void {
+    this.stats.update(location);
+    this.locationHistory.push(location);
+    this.stopDetector?.update(location, !this.replaying);
+  }
+
+  private metaKey(): string {
+    return `tracking_session:${this.id}:meta`;
+  }
+
+  private chunkKey(index: number): string {
+    return `tracking_session:${this.id}:chunk:${index}`;
+  }
+
+  private writeMeta(startTime: number, locationCount: number): Promise<void> {
+    const checkpoint: SessionCheckpoint = {
+      version: 1,
+      startTime,
+      locationCount,
+      chunkSize: SESSION_CHUNK_SIZE
+    };
+    return this.storage.setItem(this.metaKey(), JSON.stringify(checkpoint));
+  }
+
+  private async removeChunks(locationCount: number): Promise<void> {
+    const chunkCount = Math.ceil(locationCount / SESSION_CHUNK_SIZE);
+    // Chunks past the known count may be left by an earlier session with the same id or by a
+    // checkpoint whose metadata was never written
+    for (let chunk = 0; chunk < chunkCount || (await this.storage.getItem(this.chunkKey(chunk))) !== null; chunk++) {
+      await this.storage.removeItem(this.chunkKey(chunk));
+    }
+  }
+
+  /**
+   * Run storage writes one after another so checkpoints never interleave
+   */
+  private enqueueWrite(write: () => Promise<void>): Promise<void> {
+    this.pendingWrite = this.pendingWrite
+      .then(write)
+      .catch(error => {
+        console.error('Failed to checkpoint tracking session:', error);
+      });
+    return this.pendingWrite;
+  }
+}
@@ -0,0 +1,293 @@
+import type { RecordedLocation } from './types';
+import { projectOntoSegment, toLocalMeters } from './geometry';
+import { LIMITS } from './constants';
+
+export type SimplificationAlgorithm = 'douglas-peucker' | 'visvalingam';
+
+/**
+ * Options for track simplification
+ */
+export interface SimplifyOptions {
+  /**
+   * Douglas-Peucker: maximum distance of a dropped point from the simplified line.
+   * Visvalingam-Whyatt: points whose effective triangle area is below toleranceMeters² are dropped.
+   */
+  toleranceMeters: number;
+  /** Algorithm to use (default: 'douglas-peucker') */
+  algorithm?: SimplificationAlgorithm;
+}
+
+/**
+ * Options for StreamingSimplifier
+ */
+export interface StreamingSimplifierOptions {
+  /** Maximum distance of a dropped point from the simplified line in meters */
+  toleranceMeters: number;
+  /** Upper bound on kept points; tolerance doubles when exceeded (default: LIMITS.MAX_LOCATION_HISTORY) */
+  maxPoints?: number;
+}
+
+/**
+ * Cross-track distance from a point to the segment between two others (meters)
+ */
+function segmentDistance(point: RecordedLocation, start: RecordedLocation, end: RecordedLocation): number {
+  return projectOntoSegment(
+    point.latitude, point.longitude,
+    start.latitude, start.longitude,
+    end.latitude, end.longitude
+  ).distance;
+}
+
+/**
+ * Simplify a track with the Douglas-Peucker algorithm using geodesic distances
+ * @param points - Track in chronological order
+ * @param toleranceMeters - Maximum distance of dropped points from the result
+ * @returns Simplified track (first and last points are always kept)
+ */
+export function simplifyDouglasPeucker<T extends RecordedLocation>(points: T[], toleranceMeters: number): T[] {
+  if (points.length <= 2) {
+    return [...points];
+  }
+
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  // Iterative to stay safe on tracks with tens of thousands of points
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = segmentDistance(points[i]!, points[first]!, points[last]!);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+
+    if (index !== -1 && maxDistance > toleranceMeters) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i] === 1);
+}
+
+/**
+ * Area of the triangle formed by three points (square meters)
+ */
+function triangleArea(a: RecordedLocation, b: RecordedLocation, c: RecordedLocation): number {
+  const [ax, ay] = toLocalMeters(a.latitude, a.longitude, b.latitude, b.longitude);
+  const [cx, cy] = toLocalMeters(c.latitude, c.longitude, b.latitude, b.longitude);
+  return Math.abs(ax * cy - cx * ay) / 2;
+}
+
+interface HeapEntry {
+  index: number;
+  area: number;
+  version: number;
+}
+
+/**
+ * Binary min-heap ordered by area
+ */
+class AreaHeap {
+  private items: HeapEntry[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(entry: HeapEntry): void {
+    const items = this.items;
+    items.push(entry);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent]!.area <= entry.area) {
+        break;
+      }
+      items[i] = items[parent]!;
+      i = parent;
+    }
+    items[i] = entry;
+  }
+
+  pop(): HeapEntry | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (!last || items.length === 0) {
+      return top;
+    }
+
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let smallest = last;
+      let target = i;
+      if (left < items.length && items[left]!.area < smallest.area) {
+        smallest = items[left]!;
+        target = left;
+      }
+      if (right < items.length && items[right]!.area < smallest.area) {
+        target = right;
+      }
+      if (target === i) {
+        break;
+      }
+      items[i] = items[target]!;
+      i = target;
+    }
+    items[i] = last;
+    return top;
+  }
+}
+
+/**
+ * Simplify a track with the Visvalingam-Whyatt algorithm using geodesic areas
+ * @param points - Track in chronological order
+ * @param toleranceMeters - Points with effective area below toleranceMeters² are dropped
+ * @returns Simplified track (first and last points are always kept)
+ */
+export function simplifyVisvalingam<T extends RecordedLocation>(points: T[], toleranceMeters: number): T[] {
+  const count = points.length;
+  if (count <= 2) {
+    return [...points];
+  }
+
+  const minArea = toleranceMeters * toleranceMeters;
+  const previous = new Int32Array(count);
+  const next = new Int32Array(count);
+  const version = new Int32Array(count);
+  const removed = new Uint8Array(count);
+  const heap = new AreaHeap();
+
+  for (let i = 0; i < count; i++) {
+    previous[i] = i - 1;
+    next[i] = i + 1;
+  }
+  for (let i = 1; i < count - 1; i++) {
+    heap.push({ index: i, area: triangleArea(points[i - 1]!, points[i]!, points[i + 1]!), version: 0 });
+  }
+
+  let maxArea = 0;
+  while (heap.size > 0) {
+    const { index, area, version: entryVersion } = heap.pop()!;
+    // Entries are not updated in place; skip the ones superseded by a neighbour removal
+    if (removed[index] || entryVersion !== version[index]) {
+      continue;
+    }
+
+    // Effective area: a point never counts as less significant than one removed before it
+    maxArea = Math.max(maxArea, area);
+    if (maxArea >= minArea) {
+      break;
+    }
+
+    removed[index] = 1;
+    const before = previous[index]!;
+    const after = next[index]!;
+    next[before] = after;
+    previous[after] = before;
+
+    for (const neighbour of [before, after]) {
+      if (neighbour > 0 && neighbour < count - 1) {
+        version[neighbour] = version[neighbour]! + 1;
+        heap.push({
+          index: neighbour,
+          area: triangleArea(points[previous[neighbour]!]!, points[neighbour]!, points[next[neighbour]!]!),
+          version: version[neighbour]!
+        });
+      }
+    }
+  }
+
+  return points.filter((_, i) => removed[i] !== 1);
+}
+
+/**
+ * Simplify a track
+ * @param points - Track in chronological order
+ * @param options - Tolerance and algorithm
+ * @returns Simplified track
+ */
+export function simplifyTrack<T extends RecordedLocation>(points: T[], options: SimplifyOptions): T[] {
+  return options.algorithm === 'visvalingam'
+    ? simplifyVisvalingam(points, options.toleranceMeters)
+    : simplifyDouglasPeucker(points, options.toleranceMeters);
+}
+
+/**
+ * Online simplifier keeping a bounded, simplified buffer while recording.
+ * Uses an opening-window variant of Douglas-Peucker; when the buffer exceeds maxPoints
+ * the tolerance doubles and the kept points are simplified again.
+ */
+export class StreamingSimplifier<T extends RecordedLocation = RecordedLocation> {
+  private toleranceMeters: number;
+  private readonly maxPoints: number;
+  private kept: T[] = [];
+  private window: T[] = [];
+
+  /** Points examined per window before the window is closed regardless */
+  private static readonly MAX_WINDOW = 256;
+
+  constructor(options: StreamingSimplifierOptions) {
+    this.toleranceMeters = options.toleranceMeters;
+    this.maxPoints = Math.max(2, options.maxPoints ?? LIMITS.MAX_LOCATION_HISTORY);
+  }
+
+  /**
+   * Add the next location
+   * @param location - Location in chronological order
+   */
+  add(location: T): void {
+    const anchor = this.kept[this.kept.length - 1];
+    if (!anchor) {
+      this.kept.push(location);
+      return;
+    }
+
+    const fits = this.window.length < StreamingSimplifier.MAX_WINDOW &&
+      this.window.every(point => segmentDistance(point, anchor, location) <= this.toleranceMeters);
+
+    if (!fits) {
+      // The previous point becomes a vertex and the new anchor
+      this.kept.push(this.window[this.window.length - 1]!);
+      this.window = [];
+      if (this.kept.length > this.maxPoints) {
+        this.toleranceMeters *= 2;
+        this.kept = simplifyDouglasPeucker(this.kept, this.toleranceMeters);
+      }
+    }
+    this.window.push(location);
+  }
+
+  /**
+   * Get the simplified track including the latest location
+   */
+  getPoints(): T[] {
+    const last = this.window[this.window.length - 1];
+    return last ? [...this.kept, last] : [...this.kept];
+  }
+
+  /**
+   * Current tolerance in meters (grows when the buffer bound is reached)
+   */
+  getTolerance(): number {
+    return this.toleranceMeters;
+  }
+
+  /**
+   * Discard all points
+   */
+  reset(): void {
+    this.kept = [];
+    this.window = [];
+  }
+}
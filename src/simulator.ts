@@ -0,0 +1,338 @@
+import type { Spec } from './NativeRnVietmapTrackingPlugin';
+import type {
+  TrackingEventMap,
+  TrackingEventName,
+  TrackingEventSource,
+  TrackingSubscription,
+} from './backend';
+import type { LocationData, PermissionResult, TrackingStatus } from './types';
+import { LocationUtils } from './utils';
+import { DEFAULT_CONFIG } from './constants';
+
+/**
+ * Scripted position fed by the simulator; missing fields are derived
+ */
+export type SimulatedFix = Pick<LocationData, 'latitude' | 'longitude'> & Partial<LocationData>;
+
+/**
+ * Complete a scripted position into LocationData, deriving speed and bearing from the previous fix
+ * @param fix - Scripted or recorded position
+ * @param previous - Previously emitted location
+ * @returns Location with defaults for missing sensor fields
+ */
+export function toLocationData(fix: SimulatedFix, previous: LocationData | null): LocationData {
+  const timestamp = fix.timestamp ?? Date.now();
+  let speed = fix.speed ?? 0;
+  let bearing = fix.bearing ?? 0;
+
+  if (previous) {
+    if (fix.speed === undefined) {
+      speed = LocationUtils.calculateSpeed(
+        previous.latitude, previous.longitude, previous.timestamp,
+        fix.latitude, fix.longitude, timestamp
+      );
+    }
+    if (fix.bearing === undefined) {
+      bearing = LocationUtils.calculateBearing(
+        previous.latitude, previous.longitude,
+        fix.latitude, fix.longitude
+      );
+    }
+  }
+
+  return {
+    latitude: fix.latitude,
+    longitude: fix.longitude,
+    altitude: fix.altitude ?? 0,
+    accuracy: fix.accuracy ?? 5,
+    speed,
+    bearing,
+    timestamp
+  };
+}
+
+/**
+ * Options for the in-memory tracking simulator
+ */
+export interface SimulatorOptions {
+  /** Positions emitted one per interval tick */
+  route?: SimulatedFix[];
+  /** Restart from the first position after the last one (default: false) */
+  loop?: boolean;
+  /** Initial foreground permission state (default: 'granted') */
+  permission?: PermissionResult['status'];
+  /** Whether requestLocationPermissions grants access (default: true) */
+  grantOnRequest?: boolean;
+  /** Whether requestAlwaysLocationPermissions grants access (default: true) */
+  grantBackgroundOnRequest?: boolean;
+}
+
+type Listener = (event: unknown) => void;
+
+/**
+ * Reject the same way the native module does, with a code property
+ */
+function nativeError(code: string, message: string): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+/**
+ * In-memory implementation of the native Spec that emits scripted events.
+ * Register it with setTrackingBackend() to run tracking code without a device.
+ */
+export class TrackingSimulator implements Spec, TrackingEventSource {
+  private listeners = new Map<TrackingEventName, Set<Listener>>();
+  private route: SimulatedFix[];
+  private loop: boolean;
+  private grantOnRequest: boolean;
+  private grantBackgroundOnRequest: boolean;
+  private permission: PermissionResult['status'];
+  private backgroundPermission: boolean = false;
+  private routeIndex: number = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private intervalMs: number = DEFAULT_CONFIG.INTERVAL_MS;
+  private distanceFilter: number = DEFAULT_CONFIG.DISTANCE_FILTER;
+  private trackingStartTime: number = 0;
+  private lastLocation: LocationData | null = null;
+  private alertEnabled: boolean = false;
+
+  constructor(options: SimulatorOptions = {}) {
+    this.route = options.route ?? [];
+    this.loop = options.loop ?? false;
+    this.permission = options.permission ?? 'granted';
+    this.grantOnRequest = options.grantOnRequest ?? true;
+    this.grantBackgroundOnRequest = options.grantBackgroundOnRequest ?? true;
+  }
+
+  multiply(a: number, b: number): number {
+    return a * b;
+  }
+
+  async configure(apiKey: string): Promise<boolean> {
+    if (!apiKey) {
+      throw nativeError('INVALID_API_KEY', 'API key is required');
+    }
+    return true;
+  }
+
+  async configureAlertAPI(): Promise<boolean> {
+    return true;
+  }
+
+  async startTracking(
+    _backgroundMode: boolean,
+    intervalMs: number,
+    distanceFilter?: number
+  ): Promise<boolean> {
+    if (this.permission !== 'granted') {
+      throw nativeError('PERMISSION_DENIED', 'Location permission not granted');
+    }
+
+    this.intervalMs = intervalMs;
+    this.distanceFilter = distanceFilter ?? DEFAULT_CONFIG.DISTANCE_FILTER;
+    this.trackingStartTime = Date.now();
+    this.startTimer();
+    this.emitStatus();
+    return true;
+  }
+
+  async stopTracking(): Promise<boolean> {
+    if (!this.timer) {
+      return false;
+    }
+
+    clearInterval(this.timer);
+    this.timer = null;
+    this.emitStatus();
+    return true;
+  }
+
+  async getCurrentLocation(): Promise<LocationData> {
+    if (this.permission !== 'granted') {
+      throw nativeError('PERMISSION_DENIED', 'Location permission not granted');
+    }
+
+    if (this.lastLocation) {
+      return this.lastLocation;
+    }
+
+    const fix = this.route[this.routeIndex];
+    if (!fix) {
+      throw nativeError('LOCATION_UNAVAILABLE', 'Unable to get current location');
+    }
+    return toLocationData(fix, null);
+  }
+
+  async isTrackingActive(): Promise<boolean> {
+    return this.timer !== null;
+  }
+
+  async getTrackingStatus(): Promise<TrackingStatus> {
+    return this.currentStatus();
+  }
+
+  async updateTrackingConfig(config: Object): Promise<boolean> {
+    const update = config as { intervalMs?: number; distanceFilter?: number };
+    if (typeof update.intervalMs === 'number') {
+      this.intervalMs = update.intervalMs;
+    }
+    if (typeof update.distanceFilter === 'number') {
+      this.distanceFilter = update.distanceFilter;
+    }
+    if (this.timer) {
+      this.startTimer();
+    }
+    return true;
+  }
+
+  async requestLocationPermissions(): Promise<PermissionResult> {
+    if (this.permission !== 'granted' && this.grantOnRequest) {
+      this.setPermissionStatus('granted');
+    } else if (this.permission === 'not_granted') {
+      this.setPermissionStatus('denied');
+    }
+    return this.permissionResult();
+  }
+
+  async hasLocationPermissions(): Promise<PermissionResult> {
+    return this.permissionResult();
+  }
+
+  async requestAlwaysLocationPermissions(): Promise<string> {
+    if (this.permission !== 'granted') {
+      return 'denied';
+    }
+
+    this.backgroundPermission = this.grantBackgroundOnRequest;
+    this.emit('onPermissionChanged', {
+      granted: this.backgroundPermission,
+      type: 'background_location'
+    });
+    return this.backgroundPermission ? 'granted' : 'denied';
+  }
+
+  async turnOnAlert(): Promise<boolean> {
+    this.alertEnabled = true;
+    return true;
+  }
+
+  async turnOffAlert(): Promise<boolean> {
+    this.alertEnabled = false;
+    return true;
+  }
+
+  /**
+   * Whether speed alerts are currently turned on
+   */
+  isAlertEnabled(): boolean {
+    return this.alertEnabled;
+  }
+
+  addListener<K extends TrackingEventName>(
+    eventName: K,
+    listener: (event: TrackingEventMap[K]) => void
+  ): TrackingSubscription {
+    const set = this.listeners.get(eventName) ?? new Set<Listener>();
+    set.add(listener as Listener);
+    this.listeners.set(eventName, set);
+    return {
+      remove: () => {
+        set.delete(listener as Listener);
+      }
+    };
+  }
+
+  /**
+   * Emit an event to all subscribers (e.g. to script errors or route updates)
+   * @param eventName - Event name
+   * @param event - Event payload
+   */
+  emit<K extends TrackingEventName>(eventName: K, event: TrackingEventMap[K]): void {
+    this.listeners.get(eventName)?.forEach(listener => listener(event));
+  }
+
+  /**
+   * Change the simulated permission state and emit onPermissionChanged
+   * @param status - New permission status
+   */
+  setPermissionStatus(status: PermissionResult['status']): void {
+    this.permission = status;
+    if (status !== 'granted') {
+      this.backgroundPermission = false;
+    }
+    this.emit('onPermissionChanged', {
+      granted: status === 'granted',
+      type: 'location'
+    });
+  }
+
+  /**
+   * Replace the scripted route and rewind to its first position
+   * @param route - Positions to emit
+   */
+  setRoute(route: SimulatedFix[]): void {
+    this.route = route;
+    this.routeIndex = 0;
+  }
+
+  /**
+   * Emit the next scripted position immediately, as if an interval elapsed
+   * @returns Emitted location, or null if it was filtered or the route is exhausted
+   */
+  step(): LocationData | null {
+    if (this.routeIndex >= this.route.length) {
+      if (!this.loop || this.route.length === 0) {
+        return null;
+      }
+      this.routeIndex = 0;
+    }
+
+    const fix = this.route[this.routeIndex++]!;
+    const location = toLocationData(fix, this.lastLocation);
+
+    if (this.lastLocation && this.distanceFilter > 0) {
+      const moved = LocationUtils.calculateDistance(
+        this.lastLocation.latitude, this.lastLocation.longitude,
+        location.latitude, location.longitude
+      );
+      if (moved < this.distanceFilter) {
+        return null;
+      }
+    }
+
+    this.lastLocation = location;
+    this.emit('onLocationUpdate', location);
+    return location;
+  }
+
+  private startTimer(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    this.timer = setInterval(() => this.step(), this.intervalMs);
+  }
+
+  private currentStatus(): TrackingStatus {
+    const isTracking = this.timer !== null;
+    return {
+      isTracking,
+      lastLocationUpdate: this.lastLocation?.timestamp,
+      trackingDuration: isTracking ? Date.now() - this.trackingStartTime : 0
+    };
+  }
+
+  private emitStatus(): void {
+    this.emit('onTrackingStatusChanged', this.currentStatus());
+  }
+
+  private permissionResult(): PermissionResult {
+    const granted = this.permission === 'granted';
+    return {
+      granted,
+      status: this.permission,
+      fineLocation: granted,
+      coarseLocation: granted,
+      backgroundLocation: this.backgroundPermission
+    };
+  }
+}
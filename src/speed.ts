@@ -0,0 +1,300 @@
+import type {
+  LocationData,
+  ProcessedRouteData,
+  RouteAlert,
+  SpeedViolationCallback,
+  SpeedViolationEvent,
+  SpeedViolationResult,
+} from './types';
+import type { TrackingEventSource, TrackingSubscription } from './backend';
+import { getTrackingEvents } from './backend';
+import { LocationUtils } from './utils';
+import { findNearestAlert, getLinkAlerts } from './route';
+import type { NearestAlertOptions, RouteLocation } from './route';
+import { getSpeedLimit } from './speedLimits';
+import type { VehicleClass } from './speedLimits';
+import { MapMatcher } from './mapMatching';
+import type { MapMatcherOptions } from './mapMatching';
+
+/**
+ * Options for checkSpeedViolation
+ */
+export interface SpeedCheckOptions extends NearestAlertOptions {
+  /** Speed allowed above the limit before it counts as a violation in km/h (default: 5) */
+  toleranceKmh?: number;
+  /** Vehicle class used to pick RouteLink.speedLimits tiers (default: 'car') */
+  vehicleClass?: VehicleClass;
+}
+
+/**
+ * Options for SpeedViolationMonitor
+ */
+export interface SpeedViolationMonitorOptions extends SpeedCheckOptions {
+  /** Route providing speed limits (can be replaced later with setRoute) */
+  route?: ProcessedRouteData;
+  /** Time the speed must stay above the threshold before a violation starts in ms (default: 3000) */
+  minDurationMs?: number;
+  /** Speed below the threshold required before a violation ends in km/h (default: 3) */
+  exitHysteresisKmh?: number;
+  /**
+   * Time without a speed limit (off the route or on a link without one) before a violation ends in ms,
+   * so a single stray fix does not split an episode (default: 3000)
+   */
+  noLimitEndMs?: number;
+  /** Links farther away than this do not apply in meters (default: 50) */
+  maxDistance?: number;
+  /**
+   * Take the limit from the map-matched link instead of the nearest one, which keeps to the
+   * connected road at parallel roads and flyovers (default: false)
+   */
+  mapMatching?: boolean | Omit<MapMatcherOptions, 'route'>;
+}
+
+/**
+ * Lowest posted limit among alerts on the current link
+ */
+function findLimitAlert(alerts: RouteAlert[]): RouteAlert | undefined {
+  return alerts.reduce<RouteAlert | undefined>((lowest, alert) => {
+    if (alert.speedLimit === undefined) {
+      return lowest;
+    }
+    return !lowest || alert.speedLimit < lowest.speedLimit! ? alert : lowest;
+  }, undefined);
+}
+
+/**
+ * Check a location against the speed limit of the link it is on.
+ * The limit is the lower of the posted alert limit and the link's tier for the vehicle class.
+ * @param location - Current location with speed in m/s (timestamp selects time-windowed tiers)
+ * @param route - Route data from processRouteData
+ * @param options - Tolerance, vehicle class and link lookup options
+ * @returns Violation result (speeds in km/h); no speedLimit when the location is off the route
+ */
+export function checkSpeedViolation(
+  location: RouteLocation,
+  route: ProcessedRouteData,
+  options: SpeedCheckOptions = {}
+): SpeedViolationResult {
+  const nearest = findNearestAlert(location, route, options);
+  return checkSpeedOnLink(location, route, nearest?.nearestLinkIndex ?? -1, options);
+}
+
+/**
+ * Check a location against the speed limit of a known link
+ * @param linkIndex - Index in route.links, -1 when off the route
+ */
+function checkSpeedOnLink(
+  location: RouteLocation,
+  route: ProcessedRouteData,
+  linkIndex: number,
+  options: SpeedCheckOptions
+): SpeedViolationResult {
+  const toleranceKmh = options.toleranceKmh ?? 5;
+  const currentSpeed = LocationUtils.mpsToKmh(Math.max(0, location.speed ?? 0));
+  const link = route.links[linkIndex];
+  const limitAlert = link ? findLimitAlert(getLinkAlerts(route, linkIndex)) : undefined;
+  const linkLimit = link
+    ? getSpeedLimit(link, options.vehicleClass ?? 'car', location.timestamp ?? Date.now())
+    : undefined;
+
+  const useAlert = limitAlert !== undefined && (linkLimit === undefined || limitAlert.speedLimit! <= linkLimit);
+  const speedLimit = useAlert ? limitAlert.speedLimit! : linkLimit;
+  if (speedLimit === undefined) {
+    return { isViolation: false, currentSpeed, excess: 0 };
+  }
+
+  const result: SpeedViolationResult = {
+    isViolation: currentSpeed > speedLimit + toleranceKmh,
+    currentSpeed,
+    speedLimit,
+    excess: Math.max(0, currentSpeed - speedLimit)
+  };
+  if (useAlert) {
+    result.alertInfo = limitAlert;
+  }
+  return result;
+}
+
+interface ViolationEpisode {
+  startTime: number;
+  maxExcess: number;
+  confirmed: boolean;
+  /** Timestamp of the first fix of the current run without a speed limit */
+  noLimitSince?: number;
+}
+
+/**
+ * Turns per-location speed checks into violation episodes with a minimum duration and exit hysteresis
+ */
+export class SpeedViolationMonitor {
+  private route: ProcessedRouteData | null;
+  private readonly checkOptions: SpeedCheckOptions;
+  private readonly toleranceKmh: number;
+  private readonly minDurationMs: number;
+  private readonly exitHysteresisKmh: number;
+  private readonly noLimitEndMs: number;
+  private readonly matcher: MapMatcher | null;
+  private listeners = new Set<SpeedViolationCallback>();
+  private subscription: TrackingSubscription | null = null;
+  private episode: ViolationEpisode | null = null;
+  private lastResult: SpeedViolationResult | null = null;
+
+  constructor(options: SpeedViolationMonitorOptions = {}) {
+    const { route, minDurationMs, exitHysteresisKmh, noLimitEndMs, mapMatching, ...checkOptions } = options;
+    this.route = route ?? null;
+    this.checkOptions = { ...checkOptions, maxDistance: checkOptions.maxDistance ?? 50 };
+    this.toleranceKmh = checkOptions.toleranceKmh ?? 5;
+    this.minDurationMs = minDurationMs ?? 3000;
+    this.exitHysteresisKmh = exitHysteresisKmh ?? 3;
+    this.noLimitEndMs = noLimitEndMs ?? 3000;
+    this.matcher = mapMatching
+      ? new MapMatcher({
+        searchRadius: this.checkOptions.maxDistance,
+        minSpeedForBearing: checkOptions.minSpeedForBearing,
+        ...(mapMatching === true ? {} : mapMatching),
+        route: this.route ?? undefined
+      })
+      : null;
+  }
+
+  /**
+   * Replace the route; an ongoing violation ends once the new route has had no limit there for noLimitEndMs
+   * @param route - Route data from processRouteData, or null to stop checking
+   */
+  setRoute(route: ProcessedRouteData | null): void {
+    this.route = route;
+    this.matcher?.setRoute(route);
+  }
+
+  /**
+   * Subscribe to violation episodes
+   * @param callback - Callback function to receive violation events
+   * @returns Subscription object with remove method
+   */
+  addListener(callback: SpeedViolationCallback): TrackingSubscription {
+    this.listeners.add(callback);
+    return {
+      remove: () => {
+        this.listeners.delete(callback);
+      }
+    };
+  }
+
+  /**
+   * Start consuming onLocationUpdate events
+   * @param source - Event source (default: active tracking backend)
+   */
+  start(source: TrackingEventSource = getTrackingEvents()): void {
+    this.stop();
+    this.subscription = source.addListener('onLocationUpdate', location => this.processLocation(location));
+  }
+
+  /**
+   * Stop consuming location events (an ongoing episode is kept)
+   */
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+  }
+
+  /**
+   * Whether a confirmed violation is in progress
+   */
+  isViolating(): boolean {
+    return this.episode?.confirmed === true;
+  }
+
+  /**
+   * Result for the most recent location
+   */
+  getLastResult(): SpeedViolationResult | null {
+    return this.lastResult;
+  }
+
+  /**
+   * Check a location and emit episode transitions
+   * @param location - New location
+   * @returns Event triggered by this location, if any
+   */
+  processLocation(location: LocationData): SpeedViolationEvent | null {
+    const result = this.check(location);
+    this.lastResult = result;
+
+    const episode = this.episode;
+    if (episode?.confirmed) {
+      episode.maxExcess = Math.max(episode.maxExcess, result.excess);
+      // Ends when clearly back under the threshold or without a limit for noLimitEndMs
+      let ended: boolean;
+      if (result.speedLimit === undefined) {
+        if (episode.noLimitSince === undefined) {
+          episode.noLimitSince = location.timestamp;
+        }
+        ended = location.timestamp - episode.noLimitSince >= this.noLimitEndMs;
+      } else {
+        episode.noLimitSince = undefined;
+        ended = result.currentSpeed <= result.speedLimit + this.toleranceKmh - this.exitHysteresisKmh;
+      }
+      if (!ended) {
+        return null;
+      }
+
+      this.episode = null;
+      return this.emit({
+        type: 'violationEnded',
+        result,
+        startTime: episode.startTime,
+        endTime: location.timestamp,
+        maxExcess: episode.maxExcess
+      });
+    }
+
+    if (!result.isViolation) {
+      this.episode = null;
+      return null;
+    }
+
+    if (!episode) {
+      this.episode = { startTime: location.timestamp, maxExcess: result.excess, confirmed: false };
+    } else {
+      episode.maxExcess = Math.max(episode.maxExcess, result.excess);
+    }
+
+    const pending = this.episode!;
+    if (location.timestamp - pending.startTime < this.minDurationMs) {
+      return null;
+    }
+
+    pending.confirmed = true;
+    return this.emit({
+      type: 'violationStarted',
+      result,
+      startTime: pending.startTime,
+      maxExcess: pending.maxExcess
+    });
+  }
+
+  /**
+   * End any episode without emitting an event
+   */
+  reset(): void {
+    this.episode = null;
+    this.lastResult = null;
+    this.matcher?.reset();
+  }
+
+  private check(location: LocationData): SpeedViolationResult {
+    if (!this.route) {
+      return { isViolation: false, currentSpeed: LocationUtils.mpsToKmh(Math.max(0, location.speed)), excess: 0 };
+    }
+    if (this.matcher) {
+      const match = this.matcher.processLocation(location);
+      return checkSpeedOnLink(location, this.route, match.linkIndex, this.checkOptions);
+    }
+    return checkSpeedViolation(location, this.route, this.checkOptions);
+  }
+
+  private emit(event: SpeedViolationEvent): SpeedViolationEvent {
+    this.listeners.forEach(listener => listener(event));
+    return event;
+  }
+}
@@ -0,0 +1,216 @@
+import type { RouteLink } from './types';
+import { InvalidConfigError, RouteDataError } from './errors';
+
+export type VehicleClass = 'car' | 'truck' | 'motorbike';
+
+/**
+ * Daily time window in minutes since local midnight; windows may wrap past midnight (e.g. 1320-360)
+ */
+export interface SpeedLimitTimeWindow {
+  startMinute: number;
+  endMinute: number;
+}
+
+/**
+ * Decoded RouteLink.speedLimits tier
+ */
+export interface SpeedLimitRule {
+  /** Vehicle class the rule applies to ('all' for every class) */
+  vehicleClass: VehicleClass | 'all';
+  /** Speed limit in km/h */
+  speedLimit: number;
+  /** Time of day the rule applies (always when undefined) */
+  timeWindow?: SpeedLimitTimeWindow;
+}
+
+/**
+ * Column layout of a RouteLink.speedLimits tier.
+ * The route API does not document the tier format, so tiers are only interpreted once the app
+ * registers the layout its route service uses with setSpeedLimitTierLayout.
+ */
+export interface SpeedLimitTierLayout {
+  /** Column holding the vehicle class code */
+  vehicleClassColumn: number;
+  /** Column holding the speed limit in km/h */
+  speedLimitColumn: number;
+  /** Columns holding the start and end of an optional time window in minutes since local midnight */
+  timeWindowColumns?: [number, number];
+  /** Vehicle class of each code */
+  vehicleClassCodes: Record<number, VehicleClass | 'all'>;
+}
+
+const MINUTES_PER_DAY = 1440;
+
+let tierLayout: SpeedLimitTierLayout | null = null;
+
+// Rules decoded from each RouteLink.speedLimits array, with the layout they were decoded with
+const decodedRules = new WeakMap<number[][], { layout: SpeedLimitTierLayout; rules: SpeedLimitRule[] }>();
+
+/**
+ * Register how the route service lays out speedLimits tiers
+ * @param layout - Tier layout, or null to stop interpreting tiers
+ */
+export function setSpeedLimitTierLayout(layout: SpeedLimitTierLayout | null): void {
+  tierLayout = layout;
+}
+
+/**
+ * Get the registered speedLimits tier layout
+ * @returns Layout, or null when tiers are not interpreted
+ */
+export function getSpeedLimitTierLayout(): SpeedLimitTierLayout | null {
+  return tierLayout;
+}
+
+function isMinuteOfDay(value: number | undefined): value is number {
+  return value !== undefined && Number.isInteger(value) && value >= 0 && value <= MINUTES_PER_DAY;
+}
+
+/**
+ * Validate one speedLimits tier against a layout
+ * @param tier - Raw tier
+ * @param layout - Tier layout
+ * @param path - Path used in error messages, e.g. 'links[0].speedLimits[1]'
+ * @param errors - Collected error messages
+ */
+function validateSpeedLimitTier(tier: number[], layout: SpeedLimitTierLayout, path: string, errors: string[]): void {
+  const code = tier[layout.vehicleClassColumn];
+  if (code === undefined || !(code in layout.vehicleClassCodes)) {
+    errors.push(`${path}[${layout.vehicleClassColumn}] must be a vehicle class code (${Object.keys(layout.vehicleClassCodes).join(', ')})`);
+  }
+  const speedLimit = tier[layout.speedLimitColumn];
+  if (speedLimit === undefined || speedLimit <= 0) {
+    errors.push(`${path}[${layout.speedLimitColumn}] must be a positive speed limit in km/h`);
+  }
+
+  if (layout.timeWindowColumns) {
+    const [startMinute, endMinute] = layout.timeWindowColumns.map(column => tier[column]);
+    if ((startMinute === undefined) !== (endMinute === undefined)) {
+      errors.push(`${path} time window needs both a start and an end minute`);
+    } else if (startMinute !== undefined && (!isMinuteOfDay(startMinute) || !isMinuteOfDay(endMinute))) {
+      errors.push(`${path} time window must be minutes between 0 and ${MINUTES_PER_DAY}`);
+    }
+  }
+}
+
+/**
+ * Decode RouteLink.speedLimits into typed rules using a tier layout
+ * @param speedLimits - Raw tiers from a RouteLink
+ * @param layout - Tier layout (default: the one registered with setSpeedLimitTierLayout)
+ * @returns Decoded rules in the original order
+ * @throws InvalidConfigError if no layout is given or registered
+ * @throws RouteDataError if a tier is malformed
+ */
+export function decodeSpeedLimits(
+  speedLimits: number[][],
+  layout: SpeedLimitTierLayout | null = tierLayout
+): SpeedLimitRule[] {
+  if (!layout) {
+    throw new InvalidConfigError('No speedLimits tier layout registered; call setSpeedLimitTierLayout first');
+  }
+
+  const errors: string[] = [];
+  speedLimits.forEach((tier, index) => validateSpeedLimitTier(tier, layout, `speedLimits[${index}]`, errors));
+  if (errors.length > 0) {
+    throw new RouteDataError(errors);
+  }
+
+  return speedLimits.map(tier => toRule(tier, layout));
+}
+
+/**
+ * Decode the tiers of a route link with the registered layout, skipping malformed or unknown ones
+ * so the rest of the route still parses. Results are cached per speedLimits array, so lookups on
+ * every fix do not decode again.
+ * @param speedLimits - Raw tiers from a RouteLink
+ * @param path - Path used in warnings, e.g. 'links[0].speedLimits'
+ * @param warnings - Collected messages for skipped tiers
+ * @returns Rules of the valid tiers in the original order (none while no layout is registered)
+ */
+export function decodeLinkSpeedLimits(
+  speedLimits: number[][],
+  path: string = 'speedLimits',
+  warnings: string[] = []
+): SpeedLimitRule[] {
+  const layout = tierLayout;
+  if (!layout) {
+    return [];
+  }
+  const cached = decodedRules.get(speedLimits);
+  if (cached && cached.layout === layout) {
+    return cached.rules;
+  }
+
+  const rules: SpeedLimitRule[] = [];
+  speedLimits.forEach((tier, index) => {
+    const errors: string[] = [];
+    validateSpeedLimitTier(tier, layout, `${path}[${index}]`, errors);
+    if (errors.length > 0) {
+      warnings.push(...errors.map(error => `${error} (tier ignored)`));
+    } else {
+      rules.push(toRule(tier, layout));
+    }
+  });
+  decodedRules.set(speedLimits, { layout, rules });
+  return rules;
+}
+
+function toRule(tier: number[], layout: SpeedLimitTierLayout): SpeedLimitRule {
+  const rule: SpeedLimitRule = {
+    vehicleClass: layout.vehicleClassCodes[tier[layout.vehicleClassColumn]!]!,
+    speedLimit: tier[layout.speedLimitColumn]!
+  };
+  if (layout.timeWindowColumns) {
+    const [startMinute, endMinute] = layout.timeWindowColumns.map(column => tier[column]);
+    if (startMinute !== undefined && endMinute !== undefined) {
+      rule.timeWindow = { startMinute, endMinute };
+    }
+  }
+  return rule;
+}
+
+/**
+ * Check whether a minute of the day falls inside a time window
+ */
+function isInTimeWindow(window: SpeedLimitTimeWindow, minute: number): boolean {
+  if (window.startMinute <= window.endMinute) {
+    return minute >= window.startMinute && minute < window.endMinute;
+  }
+  return minute >= window.startMinute || minute < window.endMinute;
+}
+
+/**
+ * Resolve the effective speed limit of a link.
+ * Class-specific rules beat 'all' rules, time-windowed rules beat all-day ones, and the lowest
+ * limit wins among equally specific rules.
+ * @param link - Route link (malformed tiers are ignored; no tiers apply while no layout is registered)
+ * @param vehicleClass - Vehicle class (default: 'car')
+ * @param time - Date or timestamp in ms, evaluated in local time (default: now)
+ * @returns Speed limit in km/h, or undefined if no rule applies
+ */
+export function getSpeedLimit(
+  link: RouteLink,
+  vehicleClass: VehicleClass = 'car',
+  time: Date | number = Date.now()
+): number | undefined {
+  const date = new Date(time);
+  const minute = date.getHours() * 60 + date.getMinutes();
+
+  let best: { specificity: number; speedLimit: number } | undefined;
+  for (const rule of decodeLinkSpeedLimits(link.speedLimits)) {
+    if (rule.vehicleClass !== 'all' && rule.vehicleClass !== vehicleClass) {
+      continue;
+    }
+    if (rule.timeWindow && !isInTimeWindow(rule.timeWindow, minute)) {
+      continue;
+    }
+
+    const specificity = (rule.vehicleClass === 'all' ? 0 : 2) + (rule.timeWindow ? 1 : 0);
+    if (!best || specificity > best.specificity ||
+      (specificity === best.specificity && rule.speedLimit < best.speedLimit)) {
+      best = { specificity, speedLimit: rule.speedLimit };
+    }
+  }
+
+  return best?.speedLimit;
+}
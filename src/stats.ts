@@ -0,0 +1,188 @@
+import type { RecordedLocation, SessionSplit, SessionStats } from './types';
+import { LocationUtils } from './utils';
+
+/**
+ * Options for session statistics
+ */
+export interface SessionStatsOptions {
+  /** Speed at or above which the device counts as moving in m/s (default: 0.5) */
+  movingSpeed?: number;
+  /** Altitude change required before it counts as gain or loss in meters (default: 3) */
+  elevationThreshold?: number;
+  /** Split length in meters (default: 1000) */
+  splitDistance?: number;
+}
+
+/**
+ * Statistics derived from the location stream, excluding the wall-clock fields
+ */
+export type TrackStats = Omit<SessionStats, 'duration' | 'averageSpeed'>;
+
+/**
+ * Incremental statistics fed one location at a time; every update is O(1) apart from completed splits
+ */
+export class SessionStatsAccumulator {
+  private readonly movingSpeed: number;
+  private readonly elevationThreshold: number;
+  private readonly splitDistance: number;
+
+  private previous: RecordedLocation | null = null;
+  private firstTimestamp: number | null = null;
+  private locationCount: number = 0;
+  private distance: number = 0;
+  private movingTime: number = 0;
+  private movingDistance: number = 0;
+  private maxSpeed: number = 0;
+  private elevationReference: number | null = null;
+  private elevationGain: number = 0;
+  private elevationLoss: number = 0;
+  private splits: SessionSplit[] = [];
+  private split = { distance: 0, elapsedTime: 0, movingTime: 0, movingDistance: 0 };
+
+  constructor(options: SessionStatsOptions = {}) {
+    this.movingSpeed = options.movingSpeed ?? 0.5;
+    this.elevationThreshold = options.elevationThreshold ?? 3;
+    this.splitDistance = Math.max(1, options.splitDistance ?? 1000);
+  }
+
+  /**
+   * Process the next location
+   * @param location - Location in chronological order
+   */
+  update(location: RecordedLocation): void {
+    const previous = this.previous;
+    this.previous = location;
+    this.locationCount++;
+    this.updateElevation(location.altitude);
+
+    const reportedSpeed = location.speed !== undefined && location.speed >= 0 ? location.speed : undefined;
+    if (!previous) {
+      this.firstTimestamp = location.timestamp;
+      this.maxSpeed = Math.max(this.maxSpeed, reportedSpeed ?? 0);
+      return;
+    }
+
+    const distance = LocationUtils.calculateDistance(
+      previous.latitude, previous.longitude,
+      location.latitude, location.longitude
+    );
+    const elapsed = Math.max(0, location.timestamp - previous.timestamp);
+    const speed = reportedSpeed ?? (elapsed > 0 ? distance / (elapsed / 1000) : 0);
+    const moving = elapsed > 0 && speed >= this.movingSpeed;
+
+    this.distance += distance;
+    this.maxSpeed = Math.max(this.maxSpeed, speed);
+    if (moving) {
+      this.movingTime += elapsed;
+      this.movingDistance += distance;
+    }
+    this.updateSplits(distance, elapsed, moving, previous.timestamp);
+  }
+
+  /**
+   * Get the statistics so far
+   */
+  getStats(): TrackStats {
+    return {
+      distance: this.distance,
+      locationCount: this.locationCount,
+      elapsedTime: this.previous && this.firstTimestamp !== null
+        ? this.previous.timestamp - this.firstTimestamp
+        : 0,
+      movingTime: this.movingTime,
+      movingDistance: this.movingDistance,
+      movingAverageSpeed: this.movingTime > 0 ? this.movingDistance / (this.movingTime / 1000) : 0,
+      maxSpeed: this.maxSpeed,
+      elevationGain: this.elevationGain,
+      elevationLoss: this.elevationLoss,
+      splits: this.splits.map(split => ({ ...split }))
+    };
+  }
+
+  /**
+   * Clear all statistics
+   */
+  reset(): void {
+    this.previous = null;
+    this.firstTimestamp = null;
+    this.locationCount = 0;
+    this.distance = 0;
+    this.movingTime = 0;
+    this.movingDistance = 0;
+    this.maxSpeed = 0;
+    this.elevationReference = null;
+    this.elevationGain = 0;
+    this.elevationLoss = 0;
+    this.splits = [];
+    this.split = { distance: 0, elapsedTime: 0, movingTime: 0, movingDistance: 0 };
+  }
+
+  /**
+   * Count altitude changes only once they exceed the threshold from the last counted altitude,
+   * so GPS altitude noise does not add up
+   */
+  private updateElevation(altitude: number | undefined): void {
+    if (altitude === undefined || !Number.isFinite(altitude)) {
+      return;
+    }
+    if (this.elevationReference === null) {
+      this.elevationReference = altitude;
+      return;
+    }
+
+    const change = altitude - this.elevationReference;
+    if (Math.abs(change) < this.elevationThreshold) {
+      return;
+    }
+    if (change > 0) {
+      this.elevationGain += change;
+    } else {
+      this.elevationLoss -= change;
+    }
+    this.elevationReference = altitude;
+  }
+
+  /**
+   * Add a segment to the current split, closing splits at interpolated boundary times
+   */
+  private updateSplits(distance: number, elapsed: number, moving: boolean, startTime: number): void {
+    let remainingDistance = distance;
+    let remainingTime = elapsed;
+    let time = startTime;
+
+    while (this.split.distance + remainingDistance >= this.splitDistance) {
+      const needed = this.splitDistance - this.split.distance;
+      const share = remainingDistance > 0 ? needed / remainingDistance : 0;
+      const partTime = remainingTime * share;
+      this.addToSplit(needed, partTime, moving);
+      time += partTime;
+
+      const split = this.split;
+      this.splits.push({
+        index: this.splits.length + 1,
+        distance: this.splitDistance,
+        elapsedTime: split.elapsedTime,
+        movingTime: split.movingTime,
+        // ms per meter equals seconds per kilometre
+        pace: split.movingDistance > 0 ? split.movingTime / split.movingDistance : 0,
+        averageSpeed: split.movingTime > 0 ? split.movingDistance / (split.movingTime / 1000) : 0,
+        endTime: Math.round(time)
+      });
+      this.split = { distance: 0, elapsedTime: 0, movingTime: 0, movingDistance: 0 };
+
+      remainingDistance -= needed;
+      remainingTime -= partTime;
+    }
+
+    this.addToSplit(remainingDistance, remainingTime, moving);
+  }
+
+  private addToSplit(distance: number, elapsed: number, moving: boolean): void {
+    this.split.distance += distance;
+    this.split.elapsedTime += elapsed;
+    if (moving) {
+      this.split.movingTime += elapsed;
+      this.split.movingDistance += distance;
+    }
+  }
+}
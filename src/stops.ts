@@ -0,0 +1,161 @@
+import type { RecordedLocation, Stop, StopCallback } from './types';
+import { LocationUtils } from './utils';
+
+/**
+ * Options for stop and dwell detection
+ */
+export interface StopDetectionOptions {
+  /** Maximum distance from the stop centroid in meters (default: 50) */
+  radiusMeters?: number;
+  /** Minimum time inside the radius before a stop is reported in ms (default: 120000) */
+  minDurationMs?: number;
+  /** Speed at or below which the device counts as stationary in m/s (default: 1) */
+  speedThreshold?: number;
+  /** Called once a stop reaches the minimum duration */
+  onStopStarted?: StopCallback;
+  /** Called when the device leaves a confirmed stop */
+  onStopEnded?: StopCallback;
+}
+
+interface StopCandidate {
+  sumLatitude: number;
+  sumLongitude: number;
+  count: number;
+  arrivalTime: number;
+  lastTime: number;
+  confirmed: boolean;
+}
+
+/**
+ * Incremental stop detector fed one location at a time
+ */
+export class StopDetector {
+  private readonly radiusMeters: number;
+  private readonly minDurationMs: number;
+  private readonly speedThreshold: number;
+  private readonly onStopStarted?: StopCallback;
+  private readonly onStopEnded?: StopCallback;
+
+  private candidate: StopCandidate | null = null;
+  private previous: RecordedLocation | null = null;
+  private stops: Stop[] = [];
+
+  constructor(options: StopDetectionOptions = {}) {
+    this.radiusMeters = options.radiusMeters ?? 50;
+    this.minDurationMs = options.minDurationMs ?? 120000;
+    this.speedThreshold = options.speedThreshold ?? 1;
+    this.onStopStarted = options.onStopStarted;
+    this.onStopEnded = options.onStopEnded;
+  }
+
+  /**
+   * Process the next location
+   * @param location - Location in chronological order
+   * @param notify - Whether to invoke callbacks (false while replaying history)
+   */
+  update(location: RecordedLocation, notify: boolean = true): void {
+    const stationary = this.speedOf(location) <= this.speedThreshold;
+    this.previous = location;
+
+    const candidate = this.candidate;
+    if (candidate) {
+      const distance = LocationUtils.calculateDistance(
+        candidate.sumLatitude / candidate.count, candidate.sumLongitude / candidate.count,
+        location.latitude, location.longitude
+      );
+
+      // Speed only gates the start of a stop; jitter spikes inside the radius keep it alive
+      if (distance <= this.radiusMeters) {
+        candidate.sumLatitude += location.latitude;
+        candidate.sumLongitude += location.longitude;
+        candidate.count++;
+        candidate.lastTime = location.timestamp;
+
+        if (!candidate.confirmed && candidate.lastTime - candidate.arrivalTime >= this.minDurationMs) {
+          candidate.confirmed = true;
+          if (notify) {
+            this.onStopStarted?.(this.toStop(candidate, false));
+          }
+        }
+        return;
+      }
+
+      this.finishCandidate(notify);
+    }
+
+    if (stationary) {
+      this.candidate = {
+        sumLatitude: location.latitude,
+        sumLongitude: location.longitude,
+        count: 1,
+        arrivalTime: location.timestamp,
+        lastTime: location.timestamp,
+        confirmed: false
+      };
+    }
+  }
+
+  /**
+   * Get completed stops
+   */
+  getStops(): Stop[] {
+    return this.stops.map(stop => ({ ...stop }));
+  }
+
+  /**
+   * Get the confirmed stop the device is currently in, if any
+   */
+  getCurrentStop(): Stop | null {
+    return this.candidate?.confirmed ? this.toStop(this.candidate, false) : null;
+  }
+
+  /**
+   * Reset detector state and discard recorded stops
+   */
+  reset(): void {
+    this.candidate = null;
+    this.previous = null;
+    this.stops = [];
+  }
+
+  private finishCandidate(notify: boolean): void {
+    const candidate = this.candidate;
+    this.candidate = null;
+    if (!candidate?.confirmed) {
+      return;
+    }
+
+    const stop = this.toStop(candidate, true);
+    this.stops.push(stop);
+    if (notify) {
+      this.onStopEnded?.({ ...stop });
+    }
+  }
+
+  private toStop(candidate: StopCandidate, ended: boolean): Stop {
+    return {
+      latitude: candidate.sumLatitude / candidate.count,
+      longitude: candidate.sumLongitude / candidate.count,
+      arrivalTime: candidate.arrivalTime,
+      departureTime: ended ? candidate.lastTime : undefined,
+      duration: candidate.lastTime - candidate.arrivalTime,
+      locationCount: candidate.count
+    };
+  }
+
+  /**
+   * Reported speed, or speed implied by the previous fix when unavailable
+   */
+  private speedOf(location: RecordedLocation): number {
+    if (location.speed !== undefined && location.speed >= 0) {
+      return location.speed;
+    }
+    if (!this.previous) {
+      return 0;
+    }
+    return LocationUtils.calculateSpeed(
+      this.previous.latitude, this.previous.longitude, this.previous.timestamp,
+      location.latitude, location.longitude, location.timestamp
+    );
+  }
+}
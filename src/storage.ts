@@ -0,0 +1,87 @@
+/**
+ * Asynchronous key/value storage used to persist tracking data
+ */
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Minimal subset of the @react-native-async-storage/async-storage API
+ */
+export interface AsyncStorageLike {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * Storage adapter that keeps data in memory (lost when the JS process exits)
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  private items = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.items.get(key) ?? null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  /**
+   * Get all stored keys
+   */
+  keys(): string[] {
+    return Array.from(this.items.keys());
+  }
+}
+
+/**
+ * Storage adapter backed by AsyncStorage (or any compatible key/value store)
+ */
+export class AsyncStorageAdapter implements StorageAdapter {
+  /**
+   * @param storage - AsyncStorage instance
+   * @param prefix - Prefix added to every key (default: '@vietmap_tracking:')
+   */
+  constructor(
+    private storage: AsyncStorageLike,
+    private prefix: string = '@vietmap_tracking:'
+  ) {}
+
+  getItem(key: string): Promise<string | null> {
+    return this.storage.getItem(this.prefix + key);
+  }
+
+  setItem(key: string, value: string): Promise<void> {
+    return this.storage.setItem(this.prefix + key, value);
+  }
+
+  removeItem(key: string): Promise<void> {
+    return this.storage.removeItem(this.prefix + key);
+  }
+}
+
+let defaultStorage: StorageAdapter = new MemoryStorageAdapter();
+
+/**
+ * Set the storage adapter used when none is passed explicitly
+ * @param storage - Storage adapter
+ */
+export function setDefaultStorage(storage: StorageAdapter): void {
+  defaultStorage = storage;
+}
+
+/**
+ * Get the storage adapter used when none is passed explicitly
+ * @returns Default storage adapter (in-memory unless changed)
+ */
+export function getDefaultStorage(): StorageAdapter {
+  return defaultStorage;
+}
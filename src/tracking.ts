@@ -0,0 +1,131 @@
+import { getTrackingModule } from './backend';
+import { PermissionDeniedError, toTrackingError } from './errors';
+import { getActiveTrackingConfig, setActiveTrackingConfig } from './trackingConfig';
+import type { LocationTrackingConfig, LocationData, TrackingStatus, PermissionResult } from './types';
+
+/**
+ * Request location permissions
+ * @returns Promise<PermissionResult> - Permission result with detailed status
+ */
+export async function requestLocationPermissions(): Promise<PermissionResult> {
+  try {
+    const result = await getTrackingModule().requestLocationPermissions();
+    return result;
+  } catch (error) {
+    console.error('Failed to request location permissions:', error);
+    throw toTrackingError(error, 'PERMISSION_DENIED');
+  }
+}
+
+/**
+ * Check if location permissions are granted
+ * @returns Promise<PermissionResult> - Current permission status
+ */
+export async function hasLocationPermissions(): Promise<PermissionResult> {
+  try {
+    const result = await getTrackingModule().hasLocationPermissions();
+    return result;
+  } catch (error) {
+    console.error('Failed to check location permissions:', error);
+    throw toTrackingError(error, 'PERMISSION_DENIED');
+  }
+}
+
+/**
+ * Start GPS location tracking with specified configuration
+ * @param config - Configuration for location tracking
+ * @returns Promise<boolean> - Success status
+ * @throws PermissionDeniedError if location permission is not granted
+ * @throws TrackingStateError (ALREADY_TRACKING) if the native module rejects because tracking is active
+ */
+export async function startLocationTracking(config: LocationTrackingConfig): Promise<boolean> {
+  try {
+    // Request permissions first
+    const permissionStatus = await hasLocationPermissions();
+    if (!permissionStatus.granted) {
+      const permissionResult = await requestLocationPermissions();
+      if (!permissionResult.granted) {
+        throw new PermissionDeniedError();
+      }
+    }
+
+    // Extract parameters from config for native call
+    const backgroundMode = config.backgroundMode || false;
+    const intervalMs = config.intervalMs || 5000;
+    const distanceFilter = config.distanceFilter || 10;
+    const notificationTitle = config.notificationTitle;
+    const notificationMessage = config.notificationMessage;
+
+    const result = await getTrackingModule().startTracking(
+      backgroundMode,
+      intervalMs,
+      distanceFilter,
+      notificationTitle,
+      notificationMessage
+    );
+    if (result) {
+      setActiveTrackingConfig({ ...config, backgroundMode, intervalMs, distanceFilter });
+    }
+    return result;
+  } catch (error) {
+    console.error('Failed to start location tracking:', error);
+    throw toTrackingError(error);
+  }
+}
+
+/**
+ * Stop GPS location tracking
+ * @returns Promise<boolean> - Success status
+ * @throws TrackingError if the native module rejects
+ */
+export async function stopLocationTracking(): Promise<boolean> {
+  try {
+    const result = await getTrackingModule().stopTracking();
+    if (result) {
+      setActiveTrackingConfig(null);
+    }
+    return result;
+  } catch (error) {
+    console.error('Failed to stop location tracking:', error);
+    throw toTrackingError(error);
+  }
+}
+
+/**
+ * Get current location immediately
+ * @returns Promise<LocationData> - Current location data
+ */
+export async function getCurrentLocation(): Promise<LocationData> {
+  try {
+    const location = await getTrackingModule().getCurrentLocation();
+    return location as LocationData;
+  } catch (error) {
+    throw toTrackingError(error, 'LOCATION_UNAVAILABLE');
+  }
+}
+
+/**
+ * Check if location tracking is currently active
+ * @returns Promise<boolean> - Tracking status
+ */
+export async function isTrackingActive(): Promise<boolean> {
+  return await getTrackingModule().isTrackingActive();
+}
+
+/**
+ * Get detailed tracking status
+ * @returns Promise<TrackingStatus> - Detailed status information, including the active configuration
+ */
+export async function getTrackingStatus(): Promise<TrackingStatus> {
+  const status = await getTrackingModule().getTrackingStatus() as TrackingStatus;
+  const config = getActiveTrackingConfig();
+  return config ? { ...status, config } : status;
+}
+
+/**
+ * Request always location permissions (required for background tracking)
+ * @returns Promise<string> - Permission status
+ */
+export async function requestAlwaysLocationPermissions(): Promise<string> {
+  return getTrackingModule().requestAlwaysLocationPermissions();
+}
@@ -0,0 +1,113 @@
+import { Platform } from 'react-native';
+import type { LocationTrackingConfig, TrackingConfigUpdateResult } from './types';
+import { getTrackingModule } from './backend';
+import { validateLocationConfig } from './validation';
+import { InvalidConfigError, TrackingStateError, toTrackingError } from './errors';
+
+let activeConfig: LocationTrackingConfig | null = null;
+
+/**
+ * Get the configuration tracking currently runs with
+ * @returns Active configuration, or null when tracking was not started from JS
+ */
+export function getActiveTrackingConfig(): LocationTrackingConfig | null {
+  return activeConfig ? { ...activeConfig } : null;
+}
+
+/**
+ * Record the configuration passed to the native module
+ * @param config - Configuration tracking was started with, or null once stopped
+ */
+export function setActiveTrackingConfig(config: LocationTrackingConfig | null): void {
+  activeConfig = config ? { ...config } : null;
+}
+
+/**
+ * Fields of a partial configuration that are set, so `{ intervalMs: undefined }` keeps the current value
+ */
+function definedFields(config: Partial<LocationTrackingConfig>): Partial<LocationTrackingConfig> {
+  const fields: Partial<LocationTrackingConfig> = {};
+  (Object.keys(config) as Array<keyof LocationTrackingConfig>).forEach(key => {
+    if (config[key] !== undefined) {
+      Object.assign(fields, { [key]: config[key] });
+    }
+  });
+  return fields;
+}
+
+/**
+ * Fields of next that differ from previous
+ */
+function diffConfig(
+  previous: LocationTrackingConfig,
+  next: LocationTrackingConfig
+): Partial<LocationTrackingConfig> {
+  const changes: Partial<LocationTrackingConfig> = {};
+  (Object.keys(next) as Array<keyof LocationTrackingConfig>).forEach(key => {
+    if (next[key] !== previous[key]) {
+      Object.assign(changes, { [key]: next[key] });
+    }
+  });
+  return changes;
+}
+
+/**
+ * Changed fields keyed the way the platform's native module reads them.
+ * iOS reads the background flag as `enableBackgroundMode`; Android reads `backgroundMode`.
+ */
+function toNativeChanges(changes: Partial<LocationTrackingConfig>): Record<string, unknown> {
+  const { backgroundMode, ...rest } = changes;
+  if (backgroundMode === undefined) {
+    return rest;
+  }
+  return Platform.OS === 'ios'
+    ? { ...rest, enableBackgroundMode: backgroundMode }
+    : { ...rest, backgroundMode };
+}
+
+/**
+ * Update tracking configuration while tracking is active.
+ * The update is merged with the active configuration and validated as a whole; only fields that
+ * differ from the active configuration are sent to the native module.
+ * @param config - Fields to change
+ * @returns Effective configuration, the fields sent and validation warnings
+ * @throws TrackingStateError (NOT_TRACKING) if tracking was not started with startLocationTracking
+ * @throws InvalidConfigError if the merged configuration is invalid
+ * @throws TrackingError if the native module rejects
+ */
+export async function updateTrackingConfig(
+  config: Partial<LocationTrackingConfig>
+): Promise<TrackingConfigUpdateResult> {
+  const previous = activeConfig;
+  if (!previous) {
+    throw new TrackingStateError('NOT_TRACKING', 'Tracking was not started with startLocationTracking');
+  }
+  const merged: LocationTrackingConfig = { ...previous, ...definedFields(config) };
+
+  const validation = validateLocationConfig(merged);
+  if (!validation.isValid) {
+    throw new InvalidConfigError(`Invalid tracking configuration: ${validation.errors.join(', ')}`);
+  }
+
+  const changes = diffConfig(previous, merged);
+  if (Object.keys(changes).length === 0) {
+    return { applied: true, config: merged, changes, warnings: validation.warnings };
+  }
+
+  let applied: boolean;
+  try {
+    applied = await getTrackingModule().updateTrackingConfig(toNativeChanges(changes));
+  } catch (error) {
+    throw toTrackingError(error, 'INVALID_CONFIG');
+  }
+
+  if (applied) {
+    activeConfig = merged;
+  }
+  return {
+    applied,
+    config: applied ? merged : { ...previous },
+    changes,
+    warnings: validation.warnings
+  };
+}
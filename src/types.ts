@@ -23,30 +23,152 @@ export interface LocationData {
   timestamp: number;
 }
 
+/**
+ * Location recorded by TrackingSession; sensor fields are absent when only coordinates were added
+ */
+export type RecordedLocation = Pick<LocationData, 'latitude' | 'longitude' | 'timestamp'> &
+  Partial<LocationData>;
+
+/**
+ * Place where the device stayed within a small radius for a minimum duration
+ */
+export interface Stop {
+  /** Centroid latitude of the fixes recorded during the stop */
+  latitude: number;
+  /** Centroid longitude of the fixes recorded during the stop */
+  longitude: number;
+  /** Timestamp of the first fix of the stop (ms) */
+  arrivalTime: number;
+  /** Timestamp of the last fix of the stop (ms); undefined while the stop is ongoing */
+  departureTime?: number;
+  /** Time spent at the stop so far (ms) */
+  duration: number;
+  /** Number of fixes recorded during the stop */
+  locationCount: number;
+}
+
+export type StopCallback = (stop: Stop) => void;
+
+/**
+ * Fixed-distance section of a session (per kilometre by default)
+ */
+export interface SessionSplit {
+  /** 1-based split number */
+  index: number;
+  /** Split length in meters */
+  distance: number;
+  /** Time from the start to the end of the split, interpolated at the boundaries (ms) */
+  elapsedTime: number;
+  /** Part of elapsedTime spent moving (ms) */
+  movingTime: number;
+  /** Moving time per kilometre in seconds */
+  pace: number;
+  /** Distance over moving time in m/s */
+  averageSpeed: number;
+  /** Time the split was completed (ms) */
+  endTime: number;
+}
+
+/**
+ * Statistics returned by TrackingSession.getStats()
+ */
+export interface SessionStats {
+  /** Wall-clock time since start() in ms */
+  duration: number;
+  /** Total distance in meters */
+  distance: number;
+  /** Distance over duration in m/s (includes stops) */
+  averageSpeed: number;
+  locationCount: number;
+  /** Time between the first and last fix in ms */
+  elapsedTime: number;
+  /** Time spent moving in ms */
+  movingTime: number;
+  /** Distance covered while moving in meters */
+  movingDistance: number;
+  /** Moving distance over moving time in m/s */
+  movingAverageSpeed: number;
+  /** Highest speed in m/s (reported speed, or speed between fixes when unavailable) */
+  maxSpeed: number;
+  /** Total ascent in meters, ignoring changes below the elevation threshold */
+  elevationGain: number;
+  /** Total descent in meters, ignoring changes below the elevation threshold */
+  elevationLoss: number;
+  /** Completed splits */
+  splits: SessionSplit[];
+}
+
 export interface TrackingStatus {
   isTracking: boolean;
   lastLocationUpdate?: number;
   trackingDuration: number;
+  /** Configuration tracking runs with (undefined when tracking was not started from JS) */
+  config?: LocationTrackingConfig;
+}
+
+export interface TrackingConfigUpdateResult {
+  /** Whether the native module accepted the changes (true when nothing changed) */
+  applied: boolean;
+  /** Configuration in effect after the update */
+  config: LocationTrackingConfig;
+  /** Fields sent to the native module */
+  changes: Partial<LocationTrackingConfig>;
+  /** Validation warnings for the merged configuration */
+  warnings: string[];
+}
+
+export interface LocationErrorEvent {
+  /** Error description reported by the native tracking manager */
+  error: string;
+  /** Time the error was reported (ms since epoch) */
+  timestamp: number;
+}
+
+export interface PermissionChangeEvent {
+  /** Whether the permission is granted (Android) */
+  granted?: boolean;
+  /** Permission that changed (Android) */
+  type?: 'location' | 'background_location';
+  /** Authorization status reported by CoreLocation (iOS) */
+  status?: string;
+  /** Time the change was reported in ms since epoch (iOS) */
+  timestamp?: number;
+}
+
+export interface RouteUpdateEvent {
+  /** Whether route data was fetched successfully */
+  success: boolean;
+  /** Raw route payload returned by the route API */
+  routeData?: unknown;
+  /** Time the update was reported (ms since epoch) */
+  timestamp: number;
 }
 
 export type LocationUpdateCallback = (location: LocationData) => void;
 export type TrackingStatusCallback = (status: TrackingStatus) => void;
+export type LocationErrorCallback = (event: LocationErrorEvent) => void;
+export type PermissionChangeCallback = (event: PermissionChangeEvent) => void;
+export type RouteUpdateCallback = (event: RouteUpdateEvent) => void;
 
 // Route and Alert Types
 export interface RouteLink {
   id: number;
+  /** Allowed travel direction (see LINK_DIRECTION: 0 both, 1 start → end, 2 end → start) */
   direction: number;
   startLat: number;
   startLon: number;
   endLat: number;
   endLon: number;
+  /** Link length in meters */
   distance: number;
+  /** Raw speed limit tiers; interpreted with the layout registered via setSpeedLimitTierLayout (see decodeSpeedLimits) */
   speedLimits: number[][];
 }
 
 export interface RouteAlert {
   type: number;
   subtype?: number;
+  /** Speed limit in km/h */
   speedLimit?: number;
 }
 
@@ -61,9 +183,12 @@ export interface PermissionResult {
 export interface ProcessedRouteData {
   links: RouteLink[];
   alerts: RouteAlert[];
+  /** Position of each alert, parallel to alerts: [linkIndex, meters from the link start] */
   offset: any[];
   totalLinks: number;
   totalAlerts: number;
+  /** Problems skipped instead of rejecting the route, e.g. unknown speed limit tiers or direction codes */
+  warnings?: string[];
 }
 
 export interface NearestAlertResult {
@@ -74,11 +199,26 @@ export interface NearestAlertResult {
 
 export interface SpeedViolationResult {
   isViolation: boolean;
+  /** Current speed in km/h */
   currentSpeed: number;
+  /** Applicable speed limit in km/h (undefined when no limit is known) */
   speedLimit?: number;
+  /** Amount above the speed limit in km/h (0 when within the limit) */
   excess: number;
   alertInfo?: RouteAlert;
 }
 
-// Speed alerts are now handled natively with speech synthesis
-// No need for JavaScript event types
+// Spoken speed alerts are handled natively; SpeedViolationEvent lets JS observe violation episodes
+export interface SpeedViolationEvent {
+  type: 'violationStarted' | 'violationEnded';
+  /** Result for the location that triggered the event */
+  result: SpeedViolationResult;
+  /** Time the speed first exceeded the limit plus tolerance (ms) */
+  startTime: number;
+  /** Time the episode ended (ms, violationEnded only) */
+  endTime?: number;
+  /** Highest excess during the episode so far in km/h */
+  maxExcess: number;
+}
+
+export type SpeedViolationCallback = (event: SpeedViolationEvent) => void;
@@ -0,0 +1,391 @@
+import type { LocationData } from './types';
+import { getTrackingEvents } from './backend';
+import type { TrackingEventSource, TrackingSubscription } from './backend';
+import { getDefaultStorage } from './storage';
+import type { StorageAdapter } from './storage';
+import { ServiceError, toTrackingError } from './errors';
+import type { TrackingError } from './errors';
+
+/**
+ * Batch of locations sent to the backend in a single request
+ */
+export interface UploadBatch {
+  /** Unique batch id, stable across retries (useful for server-side deduplication) */
+  id: string;
+  /** Locations in chronological order */
+  locations: LocationData[];
+  /** Time the batch was sealed (ms) */
+  createdAt: number;
+  /** Failed upload attempts so far */
+  attempts: number;
+}
+
+/**
+ * Sends a batch to the backend; the returned promise must reject when the upload failed
+ */
+export interface UploadTransport {
+  send(batch: UploadBatch): Promise<void>;
+}
+
+/**
+ * Options for HttpTransport
+ */
+export interface HttpTransportOptions {
+  /** Endpoint receiving `POST { batchId, locations }` as JSON */
+  url: string;
+  /** Extra request headers, e.g. Authorization */
+  headers?: Record<string, string>;
+  /** Request timeout in ms (default: 30000) */
+  timeoutMs?: number;
+  /** fetch implementation (default: global fetch) */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Options for LocationUploader
+ */
+export interface LocationUploaderOptions {
+  /** Transport used to deliver batches */
+  transport: UploadTransport;
+  /** Storage adapter for unsent batches (default: getDefaultStorage()) */
+  storage?: StorageAdapter;
+  /** Storage key of the queue (default: 'location_uploader:queue') */
+  storageKey?: string;
+  /** Number of locations per batch (default: 50) */
+  batchSize?: number;
+  /** Maximum age of the oldest unsealed location before the batch is sent anyway in ms (default: 60000) */
+  maxBatchAgeMs?: number;
+  /** Maximum number of queued batches; the oldest is dropped when exceeded (default: 100) */
+  maxQueuedBatches?: number;
+  /** Delay before the first retry in ms (default: 1000) */
+  initialBackoffMs?: number;
+  /** Upper bound of the retry delay in ms (default: 300000) */
+  maxBackoffMs?: number;
+  /** Called when an upload attempt fails */
+  onError?: (error: TrackingError, batch: UploadBatch) => void;
+  /** Called after a batch was delivered */
+  onUploaded?: (batch: UploadBatch) => void;
+}
+
+/**
+ * Queue state stored under the uploader storage key
+ */
+interface UploaderCheckpoint {
+  version: 1;
+  batches: UploadBatch[];
+  pending: LocationData[];
+}
+
+/**
+ * Transport posting batches as JSON with fetch
+ */
+export class HttpTransport implements UploadTransport {
+  private readonly url: string;
+  private readonly headers: Record<string, string>;
+  private readonly timeoutMs: number;
+  private readonly fetchImpl?: typeof fetch;
+
+  constructor(options: HttpTransportOptions) {
+    this.url = options.url;
+    this.headers = options.headers ?? {};
+    this.timeoutMs = options.timeoutMs ?? 30000;
+    this.fetchImpl = options.fetch;
+  }
+
+  async send(batch: UploadBatch): Promise<void> {
+    const fetchImpl = this.fetchImpl ?? globalThis.fetch;
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    let response: Response;
+    try {
+      response = await fetchImpl(this.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.headers },
+        body: JSON.stringify({ batchId: batch.id, locations: batch.locations }),
+        signal: controller.signal
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new ServiceError('TIMEOUT', `Upload timed out after ${this.timeoutMs}ms`, error);
+      }
+      throw new ServiceError('NETWORK_ERROR', 'Upload request failed', error);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (!response.ok) {
+      throw new ServiceError('NETWORK_ERROR', `Upload failed with HTTP ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Offline-first uploader batching location updates and retrying with exponential backoff
+ */
+export class LocationUploader {
+  private readonly transport: UploadTransport;
+  private readonly storage: StorageAdapter;
+  private readonly storageKey: string;
+  private readonly batchSize: number;
+  private readonly maxBatchAgeMs: number;
+  private readonly maxQueuedBatches: number;
+  private readonly initialBackoffMs: number;
+  private readonly maxBackoffMs: number;
+  private readonly onError?: (error: TrackingError, batch: UploadBatch) => void;
+  private readonly onUploaded?: (batch: UploadBatch) => void;
+
+  private batches: UploadBatch[] = [];
+  private pending: LocationData[] = [];
+  private batchCounter: number = 0;
+  private consecutiveFailures: number = 0;
+  private subscription: TrackingSubscription | null = null;
+  private ageTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private draining: Promise<void> | null = null;
+  private restored: Promise<void> | null = null;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(options: LocationUploaderOptions) {
+    this.transport = options.transport;
+    this.storage = options.storage ?? getDefaultStorage();
+    this.storageKey = options.storageKey ?? 'location_uploader:queue';
+    this.batchSize = Math.max(1, options.batchSize ?? 50);
+    this.maxBatchAgeMs = options.maxBatchAgeMs ?? 60000;
+    this.maxQueuedBatches = Math.max(1, options.maxQueuedBatches ?? 100);
+    this.initialBackoffMs = options.initialBackoffMs ?? 1000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 300000;
+    this.onError = options.onError;
+    this.onUploaded = options.onUploaded;
+  }
+
+  /**
+   * Restore unsent batches, start consuming onLocationUpdate events and upload anything left over
+   * @param source - Event source (default: active tracking backend)
+   */
+  async start(source: TrackingEventSource = getTrackingEvents()): Promise<void> {
+    this.stop();
+    await this.restore();
+    this.subscription = source.addListener('onLocationUpdate', location => this.add(location));
+    if (this.pending.length > 0) {
+      this.scheduleAgeFlush();
+    }
+    this.drainInBackground();
+  }
+
+  /**
+   * Stop consuming location events and cancel scheduled uploads (queued data stays in storage)
+   */
+  stop(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+    this.clearTimer('ageTimer');
+    this.clearTimer('retryTimer');
+  }
+
+  /**
+   * Queue a location for upload
+   * @param location - Location update
+   */
+  add(location: LocationData): void {
+    this.pending.push(location);
+    if (this.pending.length >= this.batchSize) {
+      this.sealPending();
+      this.persist();
+      this.drainInBackground();
+      return;
+    }
+
+    if (this.pending.length === 1) {
+      this.scheduleAgeFlush();
+    }
+    this.persist();
+  }
+
+  /**
+   * Seal the current batch and upload everything now, skipping any backoff delay
+   * @returns Promise resolved when the queue is empty or an upload failed
+   */
+  async flush(): Promise<void> {
+    this.sealPending();
+    this.persist();
+    this.clearTimer('retryTimer');
+    await this.drain();
+    await this.pendingWrite;
+  }
+
+  /**
+   * Number of locations waiting to be delivered (sealed and unsealed)
+   */
+  getQueuedCount(): number {
+    return this.batches.reduce((count, batch) => count + batch.locations.length, this.pending.length);
+  }
+
+  /**
+   * Get sealed batches waiting to be delivered
+   */
+  getQueuedBatches(): UploadBatch[] {
+    return this.batches.map(batch => ({ ...batch, locations: [...batch.locations] }));
+  }
+
+  /**
+   * Upload queued batches one at a time, in order
+   */
+  private drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.uploadQueued().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  /**
+   * Drain without waiting; failures outside the transport (e.g. in callbacks) are logged
+   */
+  private drainInBackground(): void {
+    this.drain().catch(error => {
+      console.error('Failed to upload location batches:', error);
+    });
+  }
+
+  private async uploadQueued(): Promise<void> {
+    let batch = this.batches[0];
+    while (batch && !this.retryTimer) {
+      try {
+        await this.transport.send(batch);
+      } catch (error) {
+        batch.attempts++;
+        this.consecutiveFailures++;
+        this.persist();
+        this.onError?.(toTrackingError(error, 'NETWORK_ERROR'), batch);
+        this.scheduleRetry();
+        return;
+      }
+
+      this.consecutiveFailures = 0;
+      this.batches = this.batches.filter(queued => queued !== batch);
+      this.persist();
+      this.onUploaded?.(batch);
+      batch = this.batches[0];
+    }
+  }
+
+  private sealPending(): void {
+    this.clearTimer('ageTimer');
+    if (this.pending.length === 0) {
+      return;
+    }
+
+    const createdAt = Date.now();
+    this.batches.push({
+      id: `${createdAt.toString(36)}-${(this.batchCounter++).toString(36)}`,
+      locations: this.pending,
+      createdAt,
+      attempts: 0
+    });
+    this.pending = [];
+
+    if (this.batches.length > this.maxQueuedBatches) {
+      // Oldest data is the least valuable once the device has been offline this long
+      this.batches = this.batches.slice(this.batches.length - this.maxQueuedBatches);
+    }
+  }
+
+  private scheduleAgeFlush(): void {
+    this.clearTimer('ageTimer');
+    this.ageTimer = setTimeout(() => {
+      this.ageTimer = null;
+      this.sealPending();
+      this.persist();
+      this.drainInBackground();
+    }, this.maxBatchAgeMs);
+  }
+
+  private scheduleRetry(): void {
+    const delay = Math.min(
+      this.maxBackoffMs,
+      this.initialBackoffMs * Math.pow(2, this.consecutiveFailures - 1)
+    );
+    this.clearTimer('retryTimer');
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.drainInBackground();
+    }, delay);
+  }
+
+  private clearTimer(timer: 'ageTimer' | 'retryTimer'): void {
+    const handle = this[timer];
+    if (handle) {
+      clearTimeout(handle);
+      this[timer] = null;
+    }
+  }
+
+  /**
+   * Load the stored queue once per instance; later starts keep the in-memory queue, which the
+   * checkpoint only mirrors
+   */
+  private restore(): Promise<void> {
+    if (!this.restored) {
+      this.restored = this.loadCheckpoint().catch(error => {
+        this.restored = null;
+        throw error;
+      });
+    }
+    return this.restored;
+  }
+
+  private async loadCheckpoint(): Promise<void> {
+    const data = await this.storage.getItem(this.storageKey);
+    if (!data) {
+      return;
+    }
+
+    const checkpoint = this.parseCheckpoint(data);
+    if (!checkpoint) {
+      return;
+    }
+    // Keep anything queued in memory before start() behind the restored data
+    this.batches = [...checkpoint.batches, ...this.batches];
+    this.pending = [...checkpoint.pending, ...this.pending];
+  }
+
+  /**
+   * Decode a stored checkpoint; an unreadable one is discarded so the next write replaces it
+   * instead of every write failing on it
+   */
+  private parseCheckpoint(data: string): UploaderCheckpoint | null {
+    try {
+      const checkpoint = JSON.parse(data) as UploaderCheckpoint;
+      if (!Array.isArray(checkpoint?.batches) || !Array.isArray(checkpoint?.pending)) {
+        throw new Error('Unexpected checkpoint format');
+      }
+      return checkpoint;
+    } catch (error) {
+      console.error('Failed to read location upload queue, discarding it:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Write the queue to storage; writes run one after another so snapshots never interleave.
+   * The stored queue is restored first so a write before start() does not overwrite it.
+   */
+  private persist(): Promise<void> {
+    this.pendingWrite = this.pendingWrite
+      .then(() => this.restore())
+      .then(() => {
+        const checkpoint: UploaderCheckpoint = {
+          version: 1,
+          batches: this.batches,
+          pending: this.pending
+        };
+        return this.storage.setItem(this.storageKey, JSON.stringify(checkpoint));
+      })
+      .catch(error => {
+        console.error('Failed to persist location upload queue:', error);
+      });
+    return this.pendingWrite;
+  }
+}
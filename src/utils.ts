@@ -107,6 +107,24 @@ export class LocationUtils {
     return timeDiff > 0 ? distance / timeDiff : 0;
   }
 
+  /**
+   * Calculate initial bearing from first point to second point
+   * @param lat1 - Latitude of first point
+   * @param lon1 - Longitude of first point
+   * @param lat2 - Latitude of second point
+   * @param lon2 - Longitude of second point
+   * @returns Bearing in degrees (0-360, clockwise from north)
+   */
+  static calculateBearing(lat1: number, lon1: number, lat2: number, lon2: number): number {
+    const phi1 = this.toRadians(lat1);
+    const phi2 = this.toRadians(lat2);
+    const dLon = this.toRadians(lon2 - lon1);
+    const y = Math.sin(dLon) * Math.cos(phi2);
+    const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLon);
+    const bearing = Math.atan2(y, x) * (180 / Math.PI);
+    return (bearing + 360) % 360;
+  }
+
   /**
    * Format coordinates to human-readable string
    * @param latitude - Latitude value
@@ -188,78 +206,3 @@ export class LocationUtils {
     return optimizedConfig;
   }
 }
-
-/**
- * Location tracking session manager
- */
-export class TrackingSession {
-  private startTime: number = 0;
-  private totalDistance: number = 0;
-  private lastLocation: { lat: number; lon: number; timestamp: number } | null = null;
-  private locationHistory: Array<{ lat: number; lon: number; timestamp: number }> = [];
-
-  /**
-   * Start a new tracking session
-   */
-  start(): void {
-    this.startTime = Date.now();
-    this.totalDistance = 0;
-    this.lastLocation = null;
-    this.locationHistory = [];
-  }
-
-  /**
-   * Add a location update to the session
-   */
-  addLocation(latitude: number, longitude: number, timestamp: number): void {
-    const currentLocation = { lat: latitude, lon: longitude, timestamp };
-
-    if (this.lastLocation) {
-      const distance = LocationUtils.calculateDistance(
-        this.lastLocation.lat, this.lastLocation.lon,
-        latitude, longitude
-      );
-      this.totalDistance += distance;
-    }
-
-    this.lastLocation = currentLocation;
-    this.locationHistory.push(currentLocation);
-  }
-
-  /**
-   * Get session statistics
-   */
-  getStats(): {
-    duration: number;
-    distance: number;
-    averageSpeed: number;
-    locationCount: number;
-  } {
-    const duration = Date.now() - this.startTime;
-    const averageSpeed = duration > 0 ? (this.totalDistance / (duration / 1000)) : 0;
-
-    return {
-      duration,
-      distance: this.totalDistance,
-      averageSpeed,
-      locationCount: this.locationHistory.length
-    };
-  }
-
-  /**
-   * Get location history
-   */
-  getHistory(): Array<{ lat: number; lon: number; timestamp: number }> {
-    return [...this.locationHistory];
-  }
-
-  /**
-   * Clear session data
-   */
-  clear(): void {
-    this.startTime = 0;
-    this.totalDistance = 0;
-    this.lastLocation = null;
-    this.locationHistory = [];
-  }
-}